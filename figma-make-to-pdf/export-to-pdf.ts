@@ -19,13 +19,49 @@
  * - TypeScript compilation: Uses waitForFunction instead of complex evaluate()
  * - Dev server: Checks if running before export
  * - Different project structures: Configurable selectors
+ * 
+ * Run with --help for CLI options and exit codes.
  */
 
-import puppeteer, { Browser, Page } from 'puppeteer';
-import { PDFDocument } from 'pdf-lib';
+import puppeteer, { Browser, BrowserContext, KeyInput, Page } from 'puppeteer';
+// Key names keyboard.press() accepts - not part of the public API, but the only list at runtime
+import { _keyDefinitions as KEY_DEFINITIONS } from 'puppeteer-core/lib/cjs/puppeteer/common/USKeyboardLayout.js';
+import {
+  PDFDocument,
+  PDFPage,
+  PageSizes,
+  rgb,
+  pushGraphicsState,
+  popGraphicsState,
+  rectangle,
+  clip,
+  endPath,
+  PDFName,
+  PDFHexString,
+  PDFDict,
+  PDFRef,
+  PDFStream,
+  PDFArray,
+  PDFString,
+  PDFFont,
+  StandardFonts,
+  degrees,
+  TextRenderingMode,
+  beginText,
+  endText,
+  setFontAndSize,
+  setTextRenderingMode,
+  setCharacterSqueeze,
+  setTextMatrix,
+  showText,
+} from 'pdf-lib';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as http from 'http';
+import * as zlib from 'zlib';
+import { createHash } from 'crypto';
+import { pathToFileURL } from 'url';
+import { spawn, spawnSync, execSync, ChildProcess } from 'child_process';
 
 // Configuration interface - matches pdf-export.config.json structure
 interface SlideConfig {
@@ -34,12 +70,367 @@ interface SlideConfig {
   comment?: string;
 }
 
+// Render modes:
+// - screenshot: PNG screenshot per state embedded into the PDF (pixel-perfect)
+// - vector: Chromium's native PDF output per state (selectable, searchable text)
+type RenderMode = 'screenshot' | 'vector';
+
+// Output files written from the captured states (config "formats" or --format, default pdf)
+// - pdf: the merged PDF (--out)
+// - pptx: PowerPoint/Keynote deck next to it, one slide per state (needs screenshots)
+// - html: offline viewer with keyboard navigation and thumbnails (needs screenshots)
+// - notes: notes pages PDF (<pdf name>-notes.pdf) - slide on top, speaker notes below
+// - handout: N-up handout PDF (<pdf name>-handout.pdf) for printing
+type OutputFormat = 'pdf' | 'pptx' | 'html' | 'notes' | 'handout';
+
+// Page layout - how each captured state is placed on a PDF page
+// - contain: scale the whole capture into the page (one page per state)
+// - fitWidth: scale to page width, split captures taller than the page across pages
+interface PageLayoutConfig {
+  margin?: number | { top: number; right: number; bottom: number; left: number };
+  horizontalAlign?: 'left' | 'center' | 'right';
+  verticalAlign?: 'top' | 'center' | 'bottom';
+  background?: string;
+  fit?: 'contain' | 'fitWidth';
+}
+
+// Navigation strategy - how to move between slides or sub-slides
+// - keyboard: press keys (next/prev), relative
+// - click: click elements matching selectors (next/prev), relative
+// - url: load a URL built from template, absolute
+// - api: evaluate JS in the page - goTo (absolute) or next/prev (relative)
+// Templates support {url}, {slide} (1-based), {index} (0-based) and {sub}
+// (sub-slide/step value as in the component: subSlide 0-based, step 1-based).
+type NavigationStrategy =
+  | { type: 'keyboard'; next?: string; prev?: string }
+  | { type: 'click'; next: string; prev?: string }
+  | { type: 'url'; template: string }
+  | { type: 'api'; goTo?: string; next?: string; prev?: string };
+
+interface NavigationConfig {
+  slide?: NavigationStrategy;
+  subSlide?: NavigationStrategy;
+  // Per-slide strategies, keyed by slide index like slidesWithSubSlides
+  overrides?: Record<string, { slide?: NavigationStrategy; subSlide?: NavigationStrategy }>;
+}
+
+// Reads the current slide/sub-slide number from the page, e.g. aria-valuenow
+// of the progress bar or a "3 / 9" sub-slide counter
+interface IndicatorConfig {
+  selector: string;
+  // Read this attribute instead of the text content
+  attribute?: string;
+  // Regex - first capture group is the number (default: first number)
+  pattern?: string;
+  // Number shown for the first slide/sub-slide (default 1)
+  base?: number;
+}
+
+// Navigation verification - confirm every move reached the intended state
+interface VerificationConfig {
+  enabled?: boolean;
+  retries?: number;
+  onFailure?: 'fail' | 'warn';
+}
+
+// Auto-discovery of slides and sub-slides at runtime (replaces slidesWithSubSlides)
+// - fingerprint "dom": text, tags, classes and image sources of mainContent
+// - fingerprint "visual": hash of a mainContent screenshot
+interface DiscoveryConfig {
+  enabled?: boolean;
+  fingerprint?: 'dom' | 'visual';
+  maxStates?: number;
+  writeConfig?: boolean;
+}
+
+// Settle detection - fixed wait times become upper bounds instead of mandatory waits
+interface SettleConfig {
+  enabled?: boolean;
+  minWait?: number;
+  idleTime?: number;
+  screenshotCheck?: boolean;
+}
+
+// Server lifecycle
+// - external: server is started by the user (only checked, the old behavior)
+// - dev: start the project's dev script and stop it after export
+// - static: serve a built dist/build folder with a built-in static file server
+interface ServerConfig {
+  mode?: 'external' | 'dev' | 'static';
+  command?: string;
+  buildCommand?: string;
+  staticDir?: string;
+  port?: number;
+  readyTimeout?: number;
+}
+
+// PDF document metadata (title falls back to the first slide title)
+interface PdfMetadataConfig {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+}
+
+// Quality checks run on every captured state (all enabled by default)
+// - blank: near-uniform frame (animation not finished)
+// - duplicate: identical to the previous page (keypress that did nothing)
+// - brokenImages: <img> that failed to decode (naturalWidth 0)
+// - failedRequests: network errors and HTTP >= 400 while the slide was exported
+// - overflow: content overflowing selectors.mainContent
+interface QualityConfig {
+  enabled?: boolean;
+  strict?: boolean;
+  // Luminance standard deviation (0-255) below which a frame counts as blank
+  uniformThreshold?: number;
+  checks?: {
+    blank?: boolean;
+    duplicate?: boolean;
+    brokenImages?: boolean;
+    failedRequests?: boolean;
+    overflow?: boolean;
+  };
+}
+
+// Incremental export - reuse pages of states whose DOM and assets didn't change
+interface CacheConfig {
+  enabled?: boolean;
+}
+
+// PowerPoint output - notes: add speaker notes to the notes pages (default true)
+interface PptxConfig {
+  notes?: boolean;
+}
+
+// Speaker notes - read from the attribute (visible elements only) or slideNotes
+// - pdfAnnotations: also attach them to the main PDF as note annotations
+interface NotesConfig {
+  enabled?: boolean;
+  attribute?: string;
+  pdfAnnotations?: boolean;
+}
+
+// Handout layout (pdfFormat/landscape page, sizes in PDF points)
+// - perPage: states per page (default 6), gutter: space between cells (default 18)
+// - noteLines: ruled lines next to each slide, lineSpacing: their distance (default 18)
+interface HandoutConfig {
+  perPage?: 2 | 3 | 4 | 6 | 9;
+  margin?: number;
+  gutter?: number;
+  border?: boolean;
+  slideNumbers?: boolean;
+  noteLines?: boolean;
+  lineSpacing?: number;
+}
+
+// Pages a stamp leaves out: "cover", "inserted" (external PDF pages) or 1-based slide numbers
+type StampSkipRule = 'cover' | 'inserted' | number;
+
+// Header/footer line - text supports {page}, {total}, {slideTitle}, {date} and {gitSha}
+interface TextStampConfig {
+  text: string;
+  align?: 'left' | 'center' | 'right';
+  fontSize?: number;
+  color?: string;
+  margin?: number;
+  skip?: StampSkipRule[];
+}
+
+// Watermark - diagonal (one line corner to corner) or tiled (repeated over the page)
+interface WatermarkConfig {
+  text: string;
+  mode?: 'diagonal' | 'tiled';
+  opacity?: number;
+  fontSize?: number;
+  color?: string;
+  skip?: StampSkipRule[];
+}
+
+// Cover page before the first slide (title and subtitle support the same placeholders)
+interface CoverConfig {
+  title?: string;
+  subtitle?: string;
+  background?: string;
+  color?: string;
+}
+
+// External PDF inserted at the start, the end (default) or after a slide (1-based, after all its states)
+interface InsertPdfConfig {
+  file: string;
+  position?: 'start' | 'end';
+  afterSlide?: number;
+}
+
+// Post-processing of the merged PDF
+interface StampsConfig {
+  header?: TextStampConfig;
+  footer?: TextStampConfig;
+  watermark?: WatermarkConfig;
+  cover?: CoverConfig;
+  insert?: InsertPdfConfig[];
+}
+
+type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+// Encoding of screenshots - quality (1-100) only applies to jpeg and webp
+interface ImageEncoding {
+  format?: ImageFormat;
+  quality?: number;
+}
+
+// Screenshot encoding and PDF size budget (screenshot mode)
+// - format: png (lossless, default), jpeg or webp - the PDF embeds webp slides as JPEG (PDF has no WebP)
+// - overrides: keyed by slide index like slidesWithSubSlides, e.g. png for text-heavy slides
+// - maxSizeMB: re-encode as JPEG, qualityStep lower each round down to minQuality, until the PDF fits
+interface ImageConfig extends ImageEncoding {
+  overrides?: Record<string, ImageEncoding>;
+  maxSizeMB?: number;
+  minQuality?: number;
+  qualityStep?: number;
+}
+
+// Flag set for the variant matrix - localStorage entries (set before the app loads) and URL query parameters
+interface VariantFlags {
+  name: string;
+  localStorage?: Record<string, string>;
+  query?: Record<string, string>;
+}
+
+// Variant matrix - the deck is exported once per combination of the listed values
+interface VariantsConfig {
+  colorScheme?: Array<'light' | 'dark' | 'no-preference'>;
+  reducedMotion?: Array<'reduce' | 'no-preference'>;
+  viewport?: Array<{ width: number; height: number }>;
+  deviceScaleFactor?: number[];
+  locale?: string[];
+  flags?: VariantFlags[];
+  // Wait times are multiplied by this with reducedMotion "reduce" (default 0.25)
+  reducedMotionWaitScale?: number;
+}
+
+// One combination of the matrix - config.activeVariant while it is exported
+interface ExportVariant {
+  name: string;
+  viewport: ExportConfig['viewport'];
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+  locale?: string;
+  flags?: VariantFlags;
+}
+
+// Offline HTML viewer
+// - file: one .html with embedded images (default), folder: <pdf name>-html/index.html + images/
+interface HtmlConfig {
+  mode?: 'file' | 'folder';
+}
+
+// Failure handling - a failed slide is retried on a fresh page (relaunching a crashed browser),
+// then replaced by a placeholder page so the rest of the deck is still exported
+// - retries: extra attempts per slide
+// - backoff: delay before the first retry in ms, doubled for every further retry
+// - slideTimeout: ms per state (slide, sub-slide or step) before a slide counts as hung -
+//   a slide with 5 steps gets 5 times as long
+interface RecoveryConfig {
+  retries?: number;
+  backoff?: number;
+  slideTimeout?: number;
+}
+
+// Area excluded from visual comparison (CSS px of the screenshot, top-left origin)
+interface IgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  comment?: string;
+}
+
+// Visual regression mode (--compare <baselineDir>)
+// - threshold: per-pixel color difference (0-1) below which pixels count as equal
+// - maxDiffRatio: share of differing pixels (0-1) still accepted for a state
+// - ignoreRegions: keyed by slide index like slidesWithSubSlides, "*" for all slides
+interface CompareConfig {
+  threshold?: number;
+  maxDiffRatio?: number;
+  ignoreRegions?: Record<string, IgnoreRegion[]>;
+}
+
+// Passed to hooks - which state is being exported
+interface HookContext {
+  // 1-based slide number (as shown in the deck) and 0-based index (as in config keys)
+  slide: number;
+  slideIndex: number;
+  sub?: SubState;
+  config: ExportConfig;
+}
+
+// Summary passed to afterExport
+interface ExportResult {
+  // First written file (the PDF unless formats excludes it) and all written files
+  outputFile: string;
+  outputFiles: string[];
+  pageCount: number;
+  states: Array<Omit<CapturedState, 'pdfDoc'>>;
+  // Some slides failed and got placeholder pages (the export exits with code 8)
+  partial: boolean;
+}
+
+// Lifecycle hooks (pdf-export.config.ts/.js only) for deck-specific quirks
+// - beforeSlide: before navigating to a slide
+// - afterNavigate: after reaching a slide or sub-slide/step (verified)
+// - beforeScreenshot: after UI is hidden and content has settled, right before capture
+// - transformScreenshot: change the PNG before it's saved and embedded (screenshot mode)
+// - afterExport: after the PDF is written (also with placeholder pages, see result.partial)
+interface ExportHooks {
+  beforeSlide?: (page: Page, context: HookContext) => Promise<void> | void;
+  afterNavigate?: (page: Page, context: HookContext) => Promise<void> | void;
+  beforeScreenshot?: (page: Page, context: HookContext) => Promise<void> | void;
+  transformScreenshot?: (screenshot: Buffer, context: HookContext) => Promise<Buffer> | Buffer;
+  afterExport?: (result: ExportResult, config: ExportConfig) => Promise<void> | void;
+}
+
 interface ExportConfig {
+  $schema?: string;
+  version?: number;
   devServerUrl: string;
   totalSlides: number;
   slidesWithSubSlides: Record<string, SlideConfig>;
   pdfFormat: string;
   landscape: boolean;
+  customWidth?: number;
+  customHeight?: number;
+  pageLayout?: PageLayoutConfig;
+  renderMode?: RenderMode;
+  metadata?: PdfMetadataConfig;
+  outline?: boolean;
+  links?: boolean;
+  textLayer?: boolean;
+  slideTitles?: string[];
+  // Speaker notes per slide - a string for all its states or one entry per sub-slide/step
+  slideNotes?: Array<string | string[]>;
+  notes?: NotesConfig;
+  discovery?: DiscoveryConfig;
+  settle?: SettleConfig;
+  server?: ServerConfig;
+  concurrency?: number;
+  deepLinkTemplate?: string;
+  navigation?: NavigationConfig;
+  indicators?: { slide?: IndicatorConfig; subSlide?: IndicatorConfig };
+  verification?: VerificationConfig;
+  saveScreenshots?: boolean;
+  compare?: CompareConfig;
+  quality?: QualityConfig;
+  cache?: CacheConfig;
+  recovery?: RecoveryConfig;
+  formats?: OutputFormat[];
+  pptx?: PptxConfig;
+  html?: HtmlConfig;
+  handout?: HandoutConfig;
+  stamps?: StampsConfig;
+  variants?: VariantsConfig;
+  image?: ImageConfig;
+  // Set by the exporter for each variant of the matrix (not a config file option)
+  activeVariant?: ExportVariant;
   hideUIElements: boolean;
   animationWaitTime: number;
   slideTransitionWaitTime: number;
@@ -47,6 +438,7 @@ interface ExportConfig {
   viewport: {
     width: number;
     height: number;
+    deviceScaleFactor?: number;
   };
   selectors: {
     progressBar: string;
@@ -59,263 +451,5308 @@ interface ExportConfig {
     typewriterWaitTime?: number;
     comment?: string;
   }>;
+  // Set by pdf-export.config.ts/.js, merged over DEFAULT_HOOKS when loading
+  hooks?: ExportHooks;
 }
 
-// Load configuration from pdf-export.config.json
-function loadConfig(): ExportConfig {
-  const configPath = path.join(process.cwd(), 'pdf-export.config.json');
-  
-  if (!fs.existsSync(configPath)) {
-    console.error('❌ Configuration file not found: pdf-export.config.json');
-    console.error('   Please run the installer first: npm run install (in Figma-Make-to-pdf folder)');
-    process.exit(1);
-  }
+// Sub-slide/step position within a main slide (index is 1-based, as displayed)
+interface SubState {
+  type: 'subSlide' | 'step';
+  index: number;
+}
 
-  try {
-    const configContent = fs.readFileSync(configPath, 'utf-8');
-    const config = JSON.parse(configContent) as ExportConfig;
-    
-    // Validate required fields
-    if (!config.devServerUrl || !config.totalSlides) {
-      throw new Error('Invalid configuration: missing required fields');
-    }
-    
-    return config;
-  } catch (error) {
-    console.error('❌ Failed to load configuration:', error);
-    process.exit(1);
-  }
+// One captured slide state - a main slide or one of its sub-slides/steps
+interface CapturedState {
+  slideIndex: number;
+  sub?: SubState;
+  title: string;
+  // Laid-out page(s) of this state - merged in slide order after capture
+  pdfDoc: PDFDocument;
+  // First page of this state in the merged PDF and how many pages it spans (set when merging)
+  pageIndex: number;
+  pageCount: number;
+  screenshotPath: string | null;
+  // Screenshot hash (DOM fingerprint in vector mode) and quality problems of this state
+  hash: string;
+  issues: QualityIssue[];
+  // Reused from the export cache instead of captured
+  cached?: boolean;
+  // Failed after all retries - a placeholder page stands in for the slide
+  placeholder?: boolean;
+  // Speaker notes (notes pages of the PPTX, notes panel of the HTML viewer)
+  notes?: string;
+}
+
+// Problem found by a quality check
+interface QualityIssue {
+  check: 'blank' | 'duplicate' | 'brokenImages' | 'failedRequests' | 'overflow';
+  message: string;
 }
 
-// Paths
-const OUTPUT_DIR = path.join(process.cwd(), 'exports');
+// Config files looked up in the current directory (first one found wins)
+const CONFIG_FILE_NAMES = ['pdf-export.config.ts', 'pdf-export.config.js', 'pdf-export.config.mjs', 'pdf-export.config.json'];
+
+// Paths (--config and --out are relative to the current directory)
+const CONFIG_FILE = path.resolve(
+  getCliOption('config') || CONFIG_FILE_NAMES.find((name) => fs.existsSync(name)) || 'pdf-export.config.json'
+);
+const IS_JSON_CONFIG = path.extname(CONFIG_FILE) === '.json';
+const OUTPUT_FILE = path.resolve(getCliOption('out') || path.join('exports', 'presentation.pdf'));
+const OUTPUT_DIR = path.dirname(OUTPUT_FILE);
 const SCREENSHOTS_DIR = path.join(OUTPUT_DIR, 'screenshots');
-const OUTPUT_FILE = path.join(OUTPUT_DIR, 'presentation.pdf');
 
-/**
- * Wait for animations to complete
- * 
- * For AI: This function handles the common problem of animations not being ready
- * when screenshots are taken. It:
- * 1. Waits a base delay
- * 2. Uses waitForFunction to check if main content is visible (opacity > 0.9)
- * 3. Has timeout handling to prevent infinite waits
- * 
- * We use waitForFunction instead of page.evaluate() with complex logic to avoid
- * TypeScript compilation issues in browser context.
- */
-const waitForAnimation = async (page: Page, config: ExportConfig, delay?: number): Promise<void> => {
-  const waitTime = delay || config.animationWaitTime;
-  
-  // Wait the base delay
-  await new Promise(resolve => setTimeout(resolve, waitTime));
-  
-  // Wait for main content to be visible using waitForFunction
-  // This avoids TypeScript compilation issues in browser context
-  try {
-    await page.waitForFunction(
-      () => {
-        const main = document.querySelector(config.selectors.mainContent);
-        if (!main) return false;
-        const style = window.getComputedStyle(main);
-        return parseFloat(style.opacity) > 0.9;
-      },
-      { timeout: 3000 }
-    );
-  } catch (e) {
-    // Continue if timeout - content might already be visible
+// Exit codes - documented in --help and README, so scripts can react to them
+const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  config: 3,
+  server: 4,
+  navigation: 5,
+  regression: 6,
+  quality: 7,
+  partial: 8,
+} as const;
+
+// CLI options taking a value (--name=value or --name value) and boolean flags
+const CLI_OPTIONS = ['config', 'out', 'slides', 'url', 'viewport', 'render-mode', 'server', 'concurrency', 'compare', 'format'];
+const CLI_FLAGS = ['help', 'print-schema', 'headful', 'screenshots', 'no-screenshots', 'discover', 'write-config', 'strict', 'force', 'resume'];
+
+// Error with a specific exit code, thrown where cleanup (browser, server) must still run
+class ExportError extends Error {
+  constructor(message: string, public exitCode: number) {
+    super(message);
   }
+}
+
+// Current config version - bump it together with a new entry in CONFIG_MIGRATIONS
+const CONFIG_VERSION = 1;
+
+// Subset of JSON Schema used for config validation (and published for editor autocompletion).
+// errorMessage is not standard JSON Schema - editors ignore it, we use it for readable errors.
+interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: { pattern: string; errorMessage?: string };
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+// Keys of slidesWithSubSlides, specialSlides and navigation.overrides
+const SLIDE_INDEX_KEYS = { pattern: '^(0|[1-9][0-9]*)$', errorMessage: 'must be a slide index (0-based number)' };
+
+const NAVIGATION_STRATEGY_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'How to move: keyboard (next/prev keys), click (next/prev selectors), url (template), api (goTo or next/prev JS)',
+  required: ['type'],
+  properties: {
+    type: { enum: ['keyboard', 'click', 'url', 'api'] },
+    next: { type: 'string' },
+    prev: { type: 'string' },
+    template: { type: 'string', description: 'URL template with {url}, {slide}, {index}, {sub}' },
+    goTo: { type: 'string', description: 'JS expression jumping directly to {slide}/{index}/{sub}' },
+  },
+  additionalProperties: false,
 };
 
-/**
- * Navigate to a specific slide using keyboard navigation
- * 
- * For AI: This function uses keyboard navigation (Arrow keys) which is more reliable
- * than clicking buttons (which can be detached from DOM during animations).
- * It:
- * 1. Gets current slide from progress bar
- * 2. Calculates steps needed
- * 3. Uses ArrowRight/ArrowLeft to navigate
- * 4. Waits for animations between each step
- */
-const navigateToSlide = async (page: Page, slideIndex: number, config: ExportConfig): Promise<void> => {
-  // Get current slide from progress bar
-  const currentSlide = await page.evaluate((selector) => {
-    const progressBar = document.querySelector(selector);
-    const ariaValueNow = progressBar?.getAttribute('aria-valuenow');
-    return ariaValueNow ? parseInt(ariaValueNow) - 1 : 0;
-  }, config.selectors.progressBar);
+const INDICATOR_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['selector'],
+  properties: {
+    selector: { type: 'string', description: 'Element showing the current position' },
+    attribute: { type: 'string', description: 'Read this attribute instead of the text' },
+    pattern: { type: 'string', description: 'Regex - the first capture group is the number' },
+    base: { type: 'integer', description: 'Number shown for the first slide/sub-slide (default 1)' },
+  },
+  additionalProperties: false,
+};
 
-  const steps = slideIndex - currentSlide;
-  if (steps > 0) {
-    for (let i = 0; i < steps; i++) {
-      await page.keyboard.press('ArrowRight');
-      await waitForAnimation(page, config, config.slideTransitionWaitTime);
-    }
-  } else if (steps < 0) {
-    for (let i = 0; i < Math.abs(steps); i++) {
-      await page.keyboard.press('ArrowLeft');
-      await waitForAnimation(page, config, config.slideTransitionWaitTime);
-    }
-  } else {
-    await waitForAnimation(page, config, 500);
-  }
+const STAMP_SKIP_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: 'Pages to leave out: "cover", "inserted" or 1-based slide numbers (default ["cover", "inserted"])',
+  items: { anyOf: [{ enum: ['cover', 'inserted'] }, { type: 'integer', minimum: 1 }] },
+};
+
+const TEXT_STAMP_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['text'],
+  properties: {
+    text: { type: 'string', description: 'Template with {page}, {total}, {slideTitle}, {date}, {gitSha}' },
+    align: { enum: ['left', 'center', 'right'] },
+    fontSize: { type: 'number', minimum: 1 },
+    color: { type: 'string', description: 'Hex color, e.g. #666666' },
+    margin: { type: 'number', minimum: 0, description: 'Distance from the page edge in points (default 20)' },
+    skip: STAMP_SKIP_SCHEMA,
+  },
+  additionalProperties: false,
+};
+
+const IMAGE_ENCODING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    format: { enum: ['png', 'jpeg', 'webp'] },
+    quality: { type: 'integer', minimum: 1, maximum: 100, description: 'JPEG/WebP quality (default 85)' },
+  },
+  additionalProperties: false,
+};
+
+const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Figma Make to PDF export config',
+  type: 'object',
+  required: [
+    'devServerUrl', 'totalSlides', 'slidesWithSubSlides', 'pdfFormat', 'landscape', 'hideUIElements',
+    'animationWaitTime', 'slideTransitionWaitTime', 'subSlideTransitionWaitTime', 'viewport', 'selectors',
+  ],
+  properties: {
+    $schema: { type: 'string' },
+    version: { type: 'integer', minimum: 1, description: `Config version (current: ${CONFIG_VERSION})` },
+    devServerUrl: { type: 'string', description: 'URL of the presentation' },
+    totalSlides: { type: 'integer', minimum: 1 },
+    slidesWithSubSlides: {
+      type: 'object',
+      description: 'Slides with sub-slides (ArrowDown) or steps, keyed by 0-based slide index',
+      propertyNames: SLIDE_INDEX_KEYS,
+      additionalProperties: {
+        type: 'object',
+        required: ['type', 'max'],
+        properties: {
+          type: { enum: ['subSlide', 'step'] },
+          max: { type: 'integer', minimum: 1, description: 'subSlide: last index (0-based), step: number of steps' },
+          comment: { type: 'string' },
+        },
+        additionalProperties: false,
+      },
+    },
+    pdfFormat: { type: 'string', description: 'A4, Letter (or any pdf-lib page size), Custom or Screenshot' },
+    landscape: { type: 'boolean' },
+    customWidth: { type: 'number', minimum: 1, description: 'Page width in points (pdfFormat "Custom")' },
+    customHeight: { type: 'number', minimum: 1, description: 'Page height in points (pdfFormat "Custom")' },
+    pageLayout: {
+      type: 'object',
+      properties: {
+        margin: {
+          anyOf: [
+            { type: 'number', minimum: 0 },
+            {
+              type: 'object',
+              required: ['top', 'right', 'bottom', 'left'],
+              properties: {
+                top: { type: 'number', minimum: 0 },
+                right: { type: 'number', minimum: 0 },
+                bottom: { type: 'number', minimum: 0 },
+                left: { type: 'number', minimum: 0 },
+              },
+              additionalProperties: false,
+            },
+          ],
+        },
+        horizontalAlign: { enum: ['left', 'center', 'right'] },
+        verticalAlign: { enum: ['top', 'center', 'bottom'] },
+        background: { type: 'string', description: 'Hex color, e.g. #ffffff' },
+        fit: { enum: ['contain', 'fitWidth'] },
+      },
+      additionalProperties: false,
+    },
+    renderMode: { enum: ['screenshot', 'vector'] },
+    metadata: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        author: { type: 'string' },
+        subject: { type: 'string' },
+        keywords: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    },
+    outline: { type: 'boolean' },
+    links: { type: 'boolean' },
+    textLayer: { type: 'boolean' },
+    slideTitles: { type: 'array', items: { type: 'string' } },
+    slideNotes: {
+      type: 'array',
+      description: 'Speaker notes per slide - a string, or an array with one entry per sub-slide/step',
+      items: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+    },
+    notes: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        attribute: { type: 'string', description: 'DOM attribute holding notes (default data-notes)' },
+        pdfAnnotations: { type: 'boolean', description: 'Attach notes to the main PDF as note annotations' },
+      },
+      additionalProperties: false,
+    },
+    discovery: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        fingerprint: { enum: ['dom', 'visual'] },
+        maxStates: { type: 'integer', minimum: 1 },
+        writeConfig: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    settle: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        minWait: { type: 'number', minimum: 0 },
+        idleTime: { type: 'number', minimum: 0 },
+        screenshotCheck: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    server: {
+      type: 'object',
+      properties: {
+        mode: { enum: ['external', 'dev', 'static'] },
+        command: { type: 'string' },
+        buildCommand: { type: 'string' },
+        staticDir: { type: 'string' },
+        port: { type: 'integer', minimum: 0 },
+        readyTimeout: { type: 'number', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    concurrency: { type: 'integer', minimum: 1 },
+    deepLinkTemplate: { type: 'string', description: 'URL template with {url}, {slide}, {index}' },
+    navigation: {
+      type: 'object',
+      properties: {
+        slide: NAVIGATION_STRATEGY_SCHEMA,
+        subSlide: NAVIGATION_STRATEGY_SCHEMA,
+        overrides: {
+          type: 'object',
+          propertyNames: SLIDE_INDEX_KEYS,
+          additionalProperties: {
+            type: 'object',
+            properties: { slide: NAVIGATION_STRATEGY_SCHEMA, subSlide: NAVIGATION_STRATEGY_SCHEMA },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    indicators: {
+      type: 'object',
+      properties: { slide: INDICATOR_SCHEMA, subSlide: INDICATOR_SCHEMA },
+      additionalProperties: false,
+    },
+    verification: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        retries: { type: 'integer', minimum: 0 },
+        onFailure: { enum: ['fail', 'warn'] },
+      },
+      additionalProperties: false,
+    },
+    saveScreenshots: { type: 'boolean' },
+    cache: {
+      type: 'object',
+      description: 'Reuse pages of unchanged states from the previous export (--force to bypass)',
+      properties: { enabled: { type: 'boolean' } },
+      additionalProperties: false,
+    },
+    formats: {
+      type: 'array',
+      description: 'Output formats written in one run (default ["pdf"]), same as --format',
+      items: { enum: ['pdf', 'pptx', 'html', 'notes', 'handout'] },
+    },
+    pptx: {
+      type: 'object',
+      properties: {
+        notes: { type: 'boolean', description: 'Add speaker notes to the notes pages (default true)' },
+      },
+      additionalProperties: false,
+    },
+    handout: {
+      type: 'object',
+      description: 'N-up handout layout (--format handout), sizes in PDF points',
+      properties: {
+        perPage: { enum: [2, 3, 4, 6, 9], description: 'States per page (default 6)' },
+        margin: { type: 'number', minimum: 0, description: 'Page margin (default 36)' },
+        gutter: { type: 'number', minimum: 0, description: 'Space between slides (default 18)' },
+        border: { type: 'boolean', description: 'Thin border around each slide (default true)' },
+        slideNumbers: { type: 'boolean', description: 'Label below each slide (default true)' },
+        noteLines: { type: 'boolean', description: 'Ruled lines next to each slide for notes (default false)' },
+        lineSpacing: { type: 'number', minimum: 6, description: 'Distance between note lines (default 18)' },
+      },
+      additionalProperties: false,
+    },
+    stamps: {
+      type: 'object',
+      description: 'Header/footer, watermark, cover page and inserted PDFs applied to the merged PDF',
+      properties: {
+        header: TEXT_STAMP_SCHEMA,
+        footer: TEXT_STAMP_SCHEMA,
+        watermark: {
+          type: 'object',
+          required: ['text'],
+          properties: {
+            text: { type: 'string' },
+            mode: { enum: ['diagonal', 'tiled'] },
+            opacity: { type: 'number', minimum: 0, maximum: 1 },
+            fontSize: { type: 'number', minimum: 1 },
+            color: { type: 'string' },
+            skip: STAMP_SKIP_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        cover: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Default: metadata.title or the first slide title' },
+            subtitle: { type: 'string', description: 'Default: {date}' },
+            background: { type: 'string' },
+            color: { type: 'string' },
+          },
+          additionalProperties: false,
+        },
+        insert: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['file'],
+            properties: {
+              file: { type: 'string', description: 'PDF path, relative to the current directory' },
+              position: { enum: ['start', 'end'] },
+              afterSlide: { type: 'integer', minimum: 1, description: 'Insert after this slide (1-based) instead' },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    image: {
+      type: 'object',
+      description: 'Screenshot encoding (png/jpeg/webp), per-slide overrides and a size budget for the PDF',
+      properties: {
+        ...IMAGE_ENCODING_SCHEMA.properties,
+        overrides: {
+          type: 'object',
+          propertyNames: SLIDE_INDEX_KEYS,
+          additionalProperties: IMAGE_ENCODING_SCHEMA,
+        },
+        maxSizeMB: { type: 'number', minimum: 0.1, description: 'Lower the JPEG quality step by step until the PDF fits' },
+        minQuality: { type: 'integer', minimum: 1, maximum: 100, description: 'Lowest quality maxSizeMB may use (default 40)' },
+        qualityStep: { type: 'integer', minimum: 1, maximum: 50, description: 'Quality decrease per round (default 10)' },
+      },
+      additionalProperties: false,
+    },
+    variants: {
+      type: 'object',
+      description: 'Export once per combination of these values, each to its own file (e.g. presentation-dark-1024x768.pdf)',
+      properties: {
+        colorScheme: { type: 'array', items: { enum: ['light', 'dark', 'no-preference'] } },
+        reducedMotion: { type: 'array', items: { enum: ['reduce', 'no-preference'] } },
+        viewport: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['width', 'height'],
+            properties: {
+              width: { type: 'integer', minimum: 1 },
+              height: { type: 'integer', minimum: 1 },
+            },
+            additionalProperties: false,
+          },
+        },
+        deviceScaleFactor: { type: 'array', items: { type: 'number', minimum: 0.1 } },
+        locale: { type: 'array', items: { type: 'string' }, description: 'Locales like "de-DE" (Accept-Language, navigator.language, Intl)' },
+        flags: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string' },
+              localStorage: { type: 'object', additionalProperties: { type: 'string' } },
+              query: { type: 'object', additionalProperties: { type: 'string' } },
+            },
+            additionalProperties: false,
+          },
+        },
+        reducedMotionWaitScale: { type: 'number', minimum: 0, maximum: 1, description: 'Wait time factor with reducedMotion "reduce" (default 0.25)' },
+      },
+      additionalProperties: false,
+    },
+    html: {
+      type: 'object',
+      properties: {
+        mode: { enum: ['file', 'folder'], description: 'Single .html with embedded images (default) or a folder with index.html and images' },
+      },
+      additionalProperties: false,
+    },
+    recovery: {
+      type: 'object',
+      description: 'Retries of failed slides (fresh page, browser relaunch) before a placeholder page is used',
+      properties: {
+        retries: { type: 'integer', minimum: 0, description: 'Extra attempts per slide (default 2)' },
+        backoff: { type: 'integer', minimum: 0, description: 'Delay before the first retry in ms, doubled per retry (default 2000)' },
+        slideTimeout: { type: 'integer', minimum: 1000, description: 'ms per state before a slide counts as hung - multiplied by its number of sub-slides/steps (default 120000)' },
+      },
+      additionalProperties: false,
+    },
+    quality: {
+      type: 'object',
+      description: 'Checks for blank/duplicate pages, broken images, failed requests and overflow',
+      properties: {
+        enabled: { type: 'boolean' },
+        strict: { type: 'boolean', description: 'Fail the export on warnings (same as --strict)' },
+        uniformThreshold: { type: 'number', minimum: 0, description: 'Luminance std dev below which a frame is blank (default 2)' },
+        checks: {
+          type: 'object',
+          properties: {
+            blank: { type: 'boolean' },
+            duplicate: { type: 'boolean' },
+            brokenImages: { type: 'boolean' },
+            failedRequests: { type: 'boolean' },
+            overflow: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    compare: {
+      type: 'object',
+      description: 'Visual regression settings for --compare <baselineDir>',
+      properties: {
+        threshold: { type: 'number', minimum: 0, maximum: 1, description: 'Per-pixel color difference counted as equal (default 0.1)' },
+        maxDiffRatio: { type: 'number', minimum: 0, maximum: 1, description: 'Share of differing pixels accepted per state (default 0)' },
+        ignoreRegions: {
+          type: 'object',
+          description: 'Areas to ignore, keyed by 0-based slide index or "*" for all slides',
+          propertyNames: { pattern: '^(\\*|0|[1-9][0-9]*)$', errorMessage: 'must be a slide index (0-based number) or "*"' },
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['x', 'y', 'width', 'height'],
+              properties: {
+                x: { type: 'number', minimum: 0 },
+                y: { type: 'number', minimum: 0 },
+                width: { type: 'number', minimum: 0 },
+                height: { type: 'number', minimum: 0 },
+                comment: { type: 'string' },
+              },
+              additionalProperties: false,
+            },
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    hideUIElements: { type: 'boolean' },
+    animationWaitTime: { type: 'number', minimum: 0 },
+    slideTransitionWaitTime: { type: 'number', minimum: 0 },
+    subSlideTransitionWaitTime: { type: 'number', minimum: 0 },
+    viewport: {
+      type: 'object',
+      required: ['width', 'height'],
+      properties: {
+        width: { type: 'integer', minimum: 1 },
+        height: { type: 'integer', minimum: 1 },
+        deviceScaleFactor: { type: 'number', minimum: 0.1, description: 'Screenshot pixels per CSS pixel (default 1)' },
+      },
+      additionalProperties: false,
+    },
+    selectors: {
+      type: 'object',
+      required: ['progressBar', 'mainContent', 'header', 'navigation'],
+      properties: {
+        progressBar: { type: 'string' },
+        mainContent: { type: 'string' },
+        header: { type: 'string' },
+        navigation: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+    specialSlides: {
+      type: 'object',
+      description: 'Per-slide extras, keyed by 0-based slide index',
+      propertyNames: SLIDE_INDEX_KEYS,
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          typewriterEffect: { type: 'boolean' },
+          typewriterWaitTime: { type: 'number', minimum: 0 },
+          comment: { type: 'string' },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+const HOOK_NAMES = ['beforeSlide', 'afterNavigate', 'beforeScreenshot', 'transformScreenshot', 'afterExport'];
+
+// Migrations from older config versions, keyed by the version they upgrade from.
+// Configs without a version field are version 0.
+const CONFIG_MIGRATIONS: Record<number, (config: Record<string, unknown>) => Record<string, unknown>> = {
+  // 0 -> 1: configs written before versioning - same fields, only the version is added
+  0: (config) => ({ version: 1, ...config }),
 };
 
+// Navigation problem found (and maybe fixed) during export
+interface VerificationEntry {
+  slideIndex: number;
+  sub?: SubState;
+  status: 'healed' | 'failed';
+  message: string;
+}
+
+// Collected across all pages of the pool
+interface NavigationReport {
+  verified: number;
+  entries: VerificationEntry[];
+}
+
 /**
- * Navigate through sub-slides
- * 
- * For AI: Sub-slides are navigated with ArrowDown/ArrowUp keys.
- * We wait longer (subSlideTransitionWaitTime) because sub-slides often have
- * typewriter effects or complex animations that take time to complete.
+ * Describe a JSON value's type for error messages
  */
-const navigateSubSlide = async (page: Page, direction: 'down' | 'up', config: ExportConfig): Promise<void> => {
-  const key = direction === 'down' ? 'ArrowDown' : 'ArrowUp';
-  await page.keyboard.press(key);
-  await waitForAnimation(page, config, config.subSlideTransitionWaitTime);
-};
+function describeJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
 
 /**
- * Hide UI elements for clean screenshots
- * 
- * For AI: This hides header, navigation, progress bar, and sub-slide indicators
- * to create cleaner PDF pages. The selectors are configurable in config.json
- * to work with different project structures.
+ * Find a known option name close to a typo (case or up to 2 edits), for "did you mean" hints
  */
-const hideUIElements = async (page: Page, config: ExportConfig): Promise<void> => {
-  await page.evaluate((selectors) => {
-    // Hide header
-    const header = document.querySelector(selectors.header);
-    if (header) {
-      (header as HTMLElement).style.display = 'none';
+function suggestOption(name: string, options: string[]): string | undefined {
+  const distance = (a: string, b: string): number => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+        previous = current;
+      }
     }
-    // Hide navigation
-    const nav = document.querySelector(selectors.navigation);
-    if (nav) {
-      (nav as HTMLElement).style.display = 'none';
+    return row[b.length];
+  };
+
+  return options.find((option) => option.toLowerCase() === name.toLowerCase())
+    ?? options.find((option) => distance(option, name) <= 2);
+}
+
+/**
+ * Validate a value against the config schema, collecting path-specific errors
+ * 
+ * For AI: Supports only the JSON Schema keywords CONFIG_SCHEMA uses, so the
+ * script stays dependency-free. Messages name the full path, e.g.
+ * "slidesWithSubSlides.7.type must be 'subSlide' | 'step'".
+ */
+function validateSchema(value: unknown, schema: JsonSchema, pathName: string, errors: string[]): void {
+  const label = pathName || 'config';
+
+  if (schema.anyOf) {
+    // Report errors of the branch with the matching type (e.g. margin object), else the type mismatch
+    const branch = schema.anyOf.find((option) => !option.type || option.type === describeJsonType(value)
+      || (option.type === 'number' && typeof value === 'number'));
+    if (branch) {
+      validateSchema(value, branch, pathName, errors);
+    } else {
+      errors.push(`${label} must be ${schema.anyOf.map((option) => option.type).join(' | ')}`);
     }
-    // Hide progress bar
-    const progressBar = document.querySelector(selectors.progressBar);
-    if (progressBar) {
-      (progressBar as HTMLElement).style.display = 'none';
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    errors.push(`${label} must be ${schema.enum.map((option) => `'${option}'`).join(' | ')}`);
+    return;
+  }
+
+  if (schema.type) {
+    const actual = describeJsonType(value);
+    const matches = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+    if (!matches) {
+      errors.push(`${label} must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type} (got ${actual})`);
+      return;
     }
-    // Hide sub-slide indicators (elements with "/" in text content)
-    const indicators = document.querySelectorAll('[class*="fixed bottom"]');
-    indicators.forEach((indicator) => {
-      if (indicator.textContent?.includes('/')) {
-        (indicator as HTMLElement).style.display = 'none';
+  }
+
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push(`${label} must be >= ${schema.minimum} (got ${value})`);
+  }
+  if (schema.maximum !== undefined && typeof value === 'number' && value > schema.maximum) {
+    errors.push(`${label} must be <= ${schema.maximum} (got ${value})`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateSchema(item, schema.items!, `${label}.${i}`, errors));
+  }
+
+  if (schema.type === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const prefix = pathName ? `${pathName}.` : '';
+
+    (schema.required || []).forEach((key) => {
+      if (record[key] === undefined) {
+        errors.push(`${prefix}${key} is required`);
       }
     });
-  }, config.selectors);
-  
-  await waitForAnimation(page, config, 300);
-};
+
+    Object.entries(record).forEach(([key, child]) => {
+      if (schema.propertyNames && !new RegExp(schema.propertyNames.pattern).test(key)) {
+        errors.push(`${prefix}${key}: key ${schema.propertyNames.errorMessage || `must match ${schema.propertyNames.pattern}`}`);
+        return;
+      }
+
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        validateSchema(child, childSchema, `${prefix}${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestOption(key, Object.keys(schema.properties || {}));
+        errors.push(`${prefix}${key} is not a known option${suggestion ? ` (did you mean ${suggestion}?)` : ''}`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateSchema(child, schema.additionalProperties, `${prefix}${key}`, errors);
+      }
+    });
+  }
+}
 
 /**
- * Wait for slide content to be fully loaded
+ * Cross-field checks the schema can't express
  * 
- * For AI: This handles special cases like typewriter effects that need extra time.
- * Special slides are configured in pdf-export.config.json under specialSlides.
- * For example, DesignSystemRulesSlide has a typewriter effect that needs 3+ seconds.
+ * For AI: Slide indices must exist (< totalSlides), pdfFormat must be a known
+ * page size, and navigation strategies must have the options their type needs.
+ * Runs only on schema-valid configs, so field types can be trusted here.
  */
-const waitForSlideContent = async (page: Page, slideIndex: number, config: ExportConfig): Promise<void> => {
-  // Wait for main content to be visible
-  try {
-    await page.waitForSelector(config.selectors.mainContent, { visible: true, timeout: 5000 });
-  } catch (e) {
-    // Continue anyway if selector not found
+function checkConfigConsistency(config: ExportConfig): string[] {
+  const errors: string[] = [];
+
+  const checkSlideKeys = (name: string, record: Record<string, unknown> | undefined) => {
+    Object.keys(record || {}).forEach((key) => {
+      if (parseInt(key) >= config.totalSlides) {
+        errors.push(`${name}.${key} refers to slide index ${key}, but totalSlides is ${config.totalSlides} (indices 0-${config.totalSlides - 1})`);
+      }
+    });
+  };
+  checkSlideKeys('slidesWithSubSlides', config.slidesWithSubSlides);
+  checkSlideKeys('specialSlides', config.specialSlides);
+  checkSlideKeys('navigation.overrides', config.navigation?.overrides);
+  checkSlideKeys('compare.ignoreRegions', config.compare?.ignoreRegions);
+  checkSlideKeys('image.overrides', config.image?.overrides);
+
+  if (config.slideTitles && config.slideTitles.length > config.totalSlides) {
+    errors.push(`slideTitles has ${config.slideTitles.length} entries, but totalSlides is ${config.totalSlides}`);
   }
-  
-  // Check for special slide handling (e.g., typewriter effects)
-  const specialSlide = config.specialSlides?.[slideIndex.toString()];
-  if (specialSlide?.typewriterEffect) {
-    const waitTime = specialSlide.typewriterWaitTime || 3000;
-    
-    // Wait for typewriter effect to complete
-    try {
-      await page.waitForFunction(
-        () => {
-          // Look for terminal or typewriter content
-          const terminal = document.querySelector('[class*="Terminal"]') || 
-                          document.querySelector('[class*="terminal"]');
-          if (terminal) {
-            const lines = terminal.querySelectorAll('div, p, span');
-            return lines.length > 20; // Typewriter should show many lines when done
+  if (config.slideNotes && config.slideNotes.length > config.totalSlides) {
+    errors.push(`slideNotes has ${config.slideNotes.length} entries, but totalSlides is ${config.totalSlides}`);
+  }
+
+  const format = config.pdfFormat.toLowerCase();
+  const formats = [...Object.keys(PageSizes), 'Custom', 'Screenshot'];
+  if (!formats.some((name) => name.toLowerCase() === format)) {
+    errors.push(`pdfFormat must be one of A4, Letter, Legal, Tabloid, A0-A10, B0-B10, ..., Custom, Screenshot (got '${config.pdfFormat}')`);
+  }
+  if (format === 'custom' && (!config.customWidth || !config.customHeight)) {
+    errors.push('customWidth and customHeight are required when pdfFormat is "Custom"');
+  }
+
+  const checkStrategy = (name: string, strategy: NavigationStrategy | undefined) => {
+    if (strategy?.type === 'click' && !strategy.next) {
+      errors.push(`${name}.next is required for type 'click'`);
+    }
+    if (strategy?.type === 'url' && !strategy.template) {
+      errors.push(`${name}.template is required for type 'url'`);
+    }
+    if (strategy?.type === 'api' && !strategy.goTo && !strategy.next) {
+      errors.push(`${name} needs goTo or next for type 'api'`);
+    }
+    if (strategy?.type === 'keyboard') {
+      (['next', 'prev'] as const).forEach((direction) => {
+        const key = strategy[direction];
+        if (key !== undefined && !(key in KEY_DEFINITIONS)) {
+          const suggestion = suggestOption(key, Object.keys(KEY_DEFINITIONS));
+          errors.push(`${name}.${direction} is not a known key: '${key}'${suggestion ? ` (did you mean ${suggestion}?)` : ''}`);
+        }
+      });
+    }
+  };
+  checkStrategy('navigation.slide', config.navigation?.slide);
+  checkStrategy('navigation.subSlide', config.navigation?.subSlide);
+  Object.entries(config.navigation?.overrides || {}).forEach(([key, override]) => {
+    checkStrategy(`navigation.overrides.${key}.slide`, override.slide);
+    checkStrategy(`navigation.overrides.${key}.subSlide`, override.subSlide);
+  });
+
+  const variantNames = resolveVariants(config).map((variant) => variant?.name);
+  const duplicateVariant = variantNames.find((name, i) => variantNames.indexOf(name) !== i);
+  if (duplicateVariant) {
+    errors.push(`variants produce the name '${duplicateVariant}' twice - use distinct values and flag names`);
+  }
+
+  const stamps = config.stamps;
+  [
+    ['stamps.header.color', stamps?.header?.color],
+    ['stamps.footer.color', stamps?.footer?.color],
+    ['stamps.watermark.color', stamps?.watermark?.color],
+    ['stamps.cover.color', stamps?.cover?.color],
+    ['stamps.cover.background', stamps?.cover?.background],
+  ].forEach(([name, color]) => {
+    if (color && !/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)) {
+      errors.push(`${name} must be a hex color like #666666 (got '${color}')`);
+    }
+  });
+  (stamps?.insert || []).forEach((insert, i) => {
+    if (!fs.existsSync(path.resolve(insert.file))) {
+      errors.push(`stamps.insert.${i}.file not found: ${insert.file}`);
+    }
+    if (insert.afterSlide && insert.afterSlide > config.totalSlides) {
+      errors.push(`stamps.insert.${i}.afterSlide is ${insert.afterSlide}, but totalSlides is ${config.totalSlides}`);
+    }
+  });
+
+  [config.indicators?.slide, config.indicators?.subSlide].forEach((indicator, i) => {
+    if (indicator?.pattern) {
+      try {
+        new RegExp(indicator.pattern);
+      } catch {
+        errors.push(`indicators.${i === 0 ? 'slide' : 'subSlide'}.pattern is not a valid regex`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Upgrade an older config to CONFIG_VERSION
+ * 
+ * For AI: Runs each migration from the config's version up, in order.
+ * Returns the version the config had, so the caller knows whether to save it.
+ */
+function migrateConfig(rawConfig: Record<string, unknown>): { config: Record<string, unknown>; fromVersion: number } {
+  const fromVersion = typeof rawConfig.version === 'number' ? rawConfig.version : 0;
+  if (fromVersion > CONFIG_VERSION) {
+    throw new Error(`Config version ${fromVersion} is newer than this export script supports (${CONFIG_VERSION}) - please update export-to-pdf.ts`);
+  }
+
+  let config = rawConfig;
+  for (let version = fromVersion; version < CONFIG_VERSION; version++) {
+    config = CONFIG_MIGRATIONS[version](config);
+  }
+  return { config, fromVersion };
+}
+
+/**
+ * Read the config file - JSON, or the default export of pdf-export.config.ts/.js
+ * 
+ * For AI: TS configs work because the script runs under tsx, which also
+ * handles the dynamic import. Code configs may nest the object in a second
+ * default when compiled to CommonJS, so that's unwrapped too.
+ */
+async function readConfigFile(): Promise<Record<string, unknown>> {
+  if (IS_JSON_CONFIG) {
+    return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+  }
+
+  const module = await import(pathToFileURL(CONFIG_FILE).href);
+  const exported = module.default ?? module;
+  return exported?.default ?? exported;
+}
+
+/**
+ * Check hooks from a code config - known names, functions only
+ */
+function validateHooks(hooks: unknown): string[] {
+  if (hooks === undefined) {
+    return [];
+  }
+  if (!hooks || typeof hooks !== 'object' || Array.isArray(hooks)) {
+    return ['hooks must be an object'];
+  }
+
+  return Object.entries(hooks).flatMap(([name, hook]) => {
+    if (!HOOK_NAMES.includes(name)) {
+      const suggestion = suggestOption(name, HOOK_NAMES);
+      return [`hooks.${name} is not a known hook${suggestion ? ` (did you mean ${suggestion}?)` : ''}`];
+    }
+    return typeof hook === 'function' ? [] : [`hooks.${name} must be a function`];
+  });
+}
+
+// Load configuration from pdf-export.config.ts/.js/.json (or --config)
+async function loadConfig(): Promise<ExportConfig> {
+  const configName = path.relative(process.cwd(), CONFIG_FILE);
+  if (!fs.existsSync(CONFIG_FILE)) {
+    console.error(`❌ Configuration file not found: ${configName}`);
+    console.error('   Please run the installer first: npm run install (in Figma-Make-to-pdf folder)');
+    process.exit(EXIT_CODES.config);
+  }
+
+  let migrated: { config: Record<string, unknown>; fromVersion: number };
+  let hooks: unknown;
+  try {
+    const rawConfig = await readConfigFile();
+    if (!rawConfig || typeof rawConfig !== 'object' || Array.isArray(rawConfig)) {
+      throw new Error(`the file must ${IS_JSON_CONFIG ? 'contain a JSON object' : 'export a config object (export default defineConfig({...}))'}`);
+    }
+    // Hooks are functions - not part of the JSON schema
+    const { hooks: rawHooks, ...data } = rawConfig;
+    hooks = rawHooks;
+    migrated = migrateConfig(data);
+  } catch (error) {
+    console.error(`❌ Failed to load configuration (${configName}):`, error instanceof Error ? error.message : error);
+    process.exit(EXIT_CODES.config);
+  }
+
+  // Validate everything up front - a typo should fail here, not mid-export
+  const errors: string[] = [];
+  validateSchema(migrated.config, CONFIG_SCHEMA, '', errors);
+  errors.push(...validateHooks(hooks));
+  const config = migrated.config as unknown as ExportConfig;
+  if (errors.length === 0) {
+    errors.push(...checkConfigConsistency(config));
+  }
+
+  if (errors.length > 0) {
+    console.error(`❌ Invalid configuration (${configName}):`);
+    errors.forEach((error) => console.error(`   - ${error}`));
+    process.exit(EXIT_CODES.config);
+  }
+
+  // JSON is saved back migrated, code configs can't be rewritten safely
+  if (migrated.fromVersion < CONFIG_VERSION && IS_JSON_CONFIG) {
+    fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2) + '\n');
+    console.log(`🔄 Migrated ${configName} from version ${migrated.fromVersion} to ${CONFIG_VERSION}\n`);
+  } else if (migrated.fromVersion < CONFIG_VERSION) {
+    console.warn(`⚠️  ${configName} is version ${migrated.fromVersion} - migrated for this run, please update it to version ${CONFIG_VERSION}\n`);
+  }
+
+  config.hooks = { ...DEFAULT_HOOKS, ...(hooks as ExportHooks | undefined) };
+  return config;
+}
+
+/**
+ * Type helper for pdf-export.config.ts
+ * 
+ * For AI: Returns the config unchanged - it only gives editors the
+ * ExportConfig type (autocompletion, hook parameter types):
+ *   import { defineConfig } from './export-to-pdf';
+ *   export default defineConfig({ ..., hooks: { beforeScreenshot: async (page, { slide }) => {} } });
+ */
+function defineConfig(config: ExportConfig): ExportConfig {
+  return config;
+}
+
+/**
+ * Read a CLI option value, e.g. --render-mode=vector or --slides 3-7,12
+ */
+function getCliOption(name: string): string | undefined {
+  const cliFlag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  if (cliFlag) {
+    return cliFlag.slice(name.length + 3);
+  }
+
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index >= 0 ? process.argv[index + 1] : undefined;
+  return value && !value.startsWith('--') ? value : undefined;
+}
+
+/**
+ * Print CLI usage and exit codes (--help)
+ */
+function printUsage(): void {
+  console.log(`Usage: npm run export:pdf -- [options]
+
+Options:
+  --config <file>           Config file (default: pdf-export.config.ts, .js, .mjs or .json)
+  --out <file>              Output PDF (default: exports/presentation.pdf)
+  --format <list>           Output formats: pdf, pptx, html, notes, handout, e.g. pdf,handout (written next to --out)
+  --slides <ranges>         Slides to export, 1-based, e.g. 3-7,12 (sub-slides included)
+  --url <url>               Presentation URL (overrides devServerUrl)
+  --viewport <WxH>          Viewport size, e.g. 1280x720
+  --headful                 Show the browser window (debugging)
+  --screenshots             Keep PNG screenshots next to the PDF (default)
+  --no-screenshots          Don't write PNG screenshots
+  --render-mode <mode>      screenshot or vector
+  --server <mode>           external, dev or static
+  --concurrency <n>         Browser pages capturing in parallel
+  --discover                Discover slides and sub-slides at runtime
+  --write-config            Write the discovered structure to the config file
+  --compare <dir>           Compare screenshots with a baseline folder, write diffs and a report
+  --strict                  Fail the export on quality warnings (blank/duplicate pages, broken images...)
+  --force                   Ignore the export cache and capture every state again
+  --resume                  Continue an interrupted export from its checkpoint
+  --help                    Show this help
+
+Exit codes:
+  0  PDF exported
+  1  Unexpected error during export
+  2  Invalid command line options
+  3  Config file missing or invalid
+  4  Presentation server not reachable
+  5  Navigation failed (some slides couldn't be reached)
+  6  Visual regressions found (--compare)
+  7  Quality warnings with --strict (PDF not written)
+  8  Some slides failed after all retries (PDF written with placeholder pages)
+
+Print the config JSON Schema: npm run export:pdf -- --print-schema`);
+}
+
+/**
+ * Reject unknown CLI options
+ * 
+ * For AI: A typo like --slide=3 would otherwise silently export the whole deck,
+ * which is the worst outcome for scripted partial re-exports.
+ */
+function validateCliArgs(): void {
+  const args = process.argv.slice(2);
+  args.forEach((arg, i) => {
+    if (!arg.startsWith('--')) {
+      const previous = args[i - 1];
+      if (previous && CLI_OPTIONS.includes(previous.slice(2))) return;
+      console.error(`❌ Unexpected argument: ${arg}`);
+      console.error('   Run with --help to see available options');
+      process.exit(EXIT_CODES.usage);
+    }
+
+    const name = arg.slice(2).split('=')[0];
+    const known = CLI_OPTIONS.includes(name) || (!arg.includes('=') && CLI_FLAGS.includes(name));
+    if (!known) {
+      console.error(`❌ Unknown option: ${arg}`);
+      console.error('   Run with --help to see available options');
+      process.exit(EXIT_CODES.usage);
+    }
+    if (CLI_OPTIONS.includes(name) && !getCliOption(name)) {
+      console.error(`❌ Missing value for --${name}`);
+      process.exit(EXIT_CODES.usage);
+    }
+  });
+}
+
+/**
+ * Apply CLI overrides (--url, --viewport, --screenshots/--no-screenshots) to the config
+ */
+function applyCliOverrides(config: ExportConfig): void {
+  const url = getCliOption('url');
+  if (url) {
+    config.devServerUrl = url;
+  }
+
+  const viewport = getCliOption('viewport');
+  if (viewport) {
+    const match = viewport.match(/^(\d+)x(\d+)$/);
+    if (!match) {
+      console.error(`❌ Invalid viewport: ${viewport}`);
+      console.error('   Expected WIDTHxHEIGHT, e.g. 1280x720');
+      process.exit(EXIT_CODES.usage);
+    }
+    config.viewport = { width: parseInt(match[1]), height: parseInt(match[2]) };
+  }
+
+  if (hasCliFlag('no-screenshots')) {
+    config.saveScreenshots = false;
+  } else if (hasCliFlag('screenshots')) {
+    config.saveScreenshots = true;
+  }
+}
+
+/**
+ * Resolve which slides to export (0-based) from --slides 3-7,12
+ * 
+ * For AI: Slide numbers are 1-based like everywhere users see them. A slide
+ * always comes with all its sub-slides/steps - they can't be selected alone.
+ * Without --slides all slides are exported.
+ */
+function resolveSlideSelection(config: ExportConfig): number[] {
+  const spec = getCliOption('slides');
+  const allSlides = Array.from({ length: config.totalSlides }, (_, i) => i);
+  if (!spec) {
+    return allSlides;
+  }
+
+  const selected = new Set<number>();
+  spec.split(',').map((part) => part.trim()).filter(Boolean).forEach((part) => {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    const from = match ? parseInt(match[1]) : NaN;
+    const to = match?.[2] ? parseInt(match[2]) : from;
+
+    if (!match || from < 1 || to < from || to > config.totalSlides) {
+      console.error(`❌ Invalid slide range: ${part}`);
+      console.error(`   Expected slide numbers 1-${config.totalSlides}, e.g. --slides 3-7,12`);
+      process.exit(EXIT_CODES.usage);
+    }
+    for (let slide = from; slide <= to; slide++) {
+      selected.add(slide - 1);
+    }
+  });
+
+  return allSlides.filter((slideIndex) => selected.has(slideIndex));
+}
+
+/**
+ * Resolve render mode from CLI or config
+ * 
+ * For AI: The CLI flag (--render-mode=vector) wins over the config value so
+ * a one-off vector export doesn't require editing pdf-export.config.json.
+ * Defaults to screenshot mode, which was the only mode before.
+ */
+function resolveRenderMode(config: ExportConfig): RenderMode {
+  const mode = getCliOption('render-mode') || config.renderMode || 'screenshot';
+
+  if (mode !== 'screenshot' && mode !== 'vector') {
+    console.error(`❌ Invalid render mode: ${mode}`);
+    console.error('   Expected one of: screenshot, vector');
+    process.exit(EXIT_CODES.usage);
+  }
+
+  return mode;
+}
+
+/**
+ * Resolve output formats from CLI (--format pdf,pptx) or config
+ * 
+ * For AI: PPTX slides and the HTML viewer are built from the PNG screenshots,
+ * so they need screenshot mode and turn saveScreenshots on (like --compare).
+ */
+function resolveOutputFormats(config: ExportConfig, renderMode: RenderMode): OutputFormat[] {
+  const cliFormats = getCliOption('format');
+  const formats = cliFormats ? cliFormats.split(',').map((format) => format.trim()) : config.formats || ['pdf'];
+  const known: OutputFormat[] = ['pdf', 'pptx', 'html', 'notes', 'handout'];
+
+  const unknown = formats.filter((format) => !known.includes(format as OutputFormat));
+  if (unknown.length > 0 || formats.length === 0) {
+    console.error(`❌ Invalid output format: ${unknown.join(', ') || '(none)'}`);
+    console.error(`   Expected one or more of: ${known.join(', ')}`);
+    process.exit(EXIT_CODES.usage);
+  }
+  const imageFormats = formats.filter((format) => format === 'pptx' || format === 'html');
+  if (imageFormats.length > 0) {
+    if (renderMode !== 'screenshot') {
+      console.error(`❌ ${imageFormats.map((format) => format.toUpperCase()).join(' and ')} output needs screenshot render mode`);
+      process.exit(EXIT_CODES.usage);
+    }
+    config.saveScreenshots = true;
+  }
+
+  const imageEncodings = [config.image, ...Object.values(config.image?.overrides || {})];
+  if (formats.includes('pptx') && imageEncodings.some((encoding) => encoding?.format === 'webp')) {
+    console.error('❌ PPTX output needs png or jpeg screenshots - image.format "webp" is not supported');
+    process.exit(EXIT_CODES.usage);
+  }
+
+  // The size budget re-encodes from the saved screenshots
+  if (config.image?.maxSizeMB && renderMode === 'screenshot') {
+    config.saveScreenshots = true;
+  }
+
+  return Array.from(new Set(formats as OutputFormat[]));
+}
+
+/**
+ * Base name of the output files - the --out name plus the variant name, e.g. "presentation-dark"
+ */
+function resolveOutputName(config: ExportConfig): string {
+  const name = path.parse(OUTPUT_FILE).name;
+  return config.activeVariant ? `${name}-${config.activeVariant.name}` : name;
+}
+
+/**
+ * Per-variant subfolder of an output folder (screenshots, compare, baseline)
+ */
+function resolveVariantDir(dir: string, config: ExportConfig): string {
+  return config.activeVariant ? path.join(dir, config.activeVariant.name) : dir;
+}
+
+/**
+ * Path of an output format - the PDF is --out, other formats use its name
+ */
+function resolveOutputPath(format: OutputFormat, config: ExportConfig): string {
+  const name = resolveOutputName(config);
+  if (format === 'pdf') {
+    return config.activeVariant ? path.join(OUTPUT_DIR, `${name}.pdf`) : OUTPUT_FILE;
+  }
+  return path.join(OUTPUT_DIR, format === 'notes' || format === 'handout' ? `${name}-${format}.pdf` : `${name}.${format}`);
+}
+
+/**
+ * Expand the variant matrix into one variant per combination ([null] without a matrix)
+ * 
+ * For AI: Only listed dimensions are varied and named - colorScheme ["light", "dark"]
+ * alone gives presentation-light.pdf and presentation-dark.pdf. Names join the
+ * values in a fixed order: color scheme, motion, viewport, scale, locale, flags.
+ */
+function resolveVariants(config: ExportConfig): Array<ExportVariant | null> {
+  const matrix = config.variants;
+  if (!matrix) {
+    return [null];
+  }
+
+  let variants: ExportVariant[] = [{ name: '', viewport: { ...config.viewport } }];
+  const expand = <T>(values: T[] | undefined, apply: (variant: ExportVariant, value: T) => string) => {
+    if (!values || values.length === 0) return;
+    variants = variants.flatMap((variant) => values.map((value) => {
+      const next: ExportVariant = { ...variant, viewport: { ...variant.viewport } };
+      const part = apply(next, value).replace(/[^\w.-]+/g, '-');
+      next.name = next.name ? `${next.name}-${part}` : part;
+      return next;
+    }));
+  };
+
+  expand(matrix.colorScheme, (variant, value) => {
+    variant.colorScheme = value;
+    return value;
+  });
+  expand(matrix.reducedMotion, (variant, value) => {
+    variant.reducedMotion = value;
+    return value === 'reduce' ? 'reduced-motion' : 'motion';
+  });
+  expand(matrix.viewport, (variant, value) => {
+    variant.viewport.width = value.width;
+    variant.viewport.height = value.height;
+    return `${value.width}x${value.height}`;
+  });
+  expand(matrix.deviceScaleFactor, (variant, value) => {
+    variant.viewport.deviceScaleFactor = value;
+    return `${value}x`;
+  });
+  expand(matrix.locale, (variant, value) => {
+    variant.locale = value;
+    return value;
+  });
+  expand(matrix.flags, (variant, value) => {
+    variant.flags = value;
+    return value.name;
+  });
+
+  return variants[0].name ? variants : [null];
+}
+
+/**
+ * Config for one variant - its viewport, and shorter waits with reduced motion
+ */
+function applyVariant(config: ExportConfig, variant: ExportVariant | null): ExportConfig {
+  if (!variant) {
+    return config;
+  }
+
+  const waitScale = variant.reducedMotion === 'reduce' ? config.variants?.reducedMotionWaitScale ?? 0.25 : 1;
+  return {
+    ...config,
+    viewport: variant.viewport,
+    animationWaitTime: Math.round(config.animationWaitTime * waitScale),
+    slideTransitionWaitTime: Math.round(config.slideTransitionWaitTime * waitScale),
+    subSlideTransitionWaitTime: Math.round(config.subSlideTransitionWaitTime * waitScale),
+    activeVariant: variant,
+  };
+}
+
+/**
+ * Presentation URL with the query parameters of the variant's flags
+ */
+function resolveVariantUrl(url: string, config: ExportConfig): string {
+  const query = config.activeVariant?.flags?.query;
+  if (!query) {
+    return url;
+  }
+
+  const parsed = new URL(url);
+  Object.entries(query).forEach(([key, value]) => parsed.searchParams.set(key, value));
+  return parsed.toString();
+}
+
+/**
+ * Check for a boolean CLI flag, e.g. --discover
+ */
+function hasCliFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+/**
+ * Wait until the page is settled (or maxWait passes)
+ * 
+ * For AI: Fixed sleeps are both slow (they always wait the full time) and
+ * unreliable (a slow transition still gets caught mid-frame). The page counts
+ * as settled when all of these hold:
+ * 1. document.fonts.ready resolved and all images are decoded
+ * 2. No running finite animations (document.getAnimations() - infinite ones
+ *    like spinners are ignored, they never finish)
+ * 3. No DOM mutations in mainContent for idleTime ms (catches JS-driven
+ *    animations that rewrite inline styles every frame)
+ * 4. Two consecutive viewport screenshots have the same hash
+ * maxWait is the upper bound - with settle disabled we just sleep maxWait,
+ * which is the old behavior. minWait gives a keypress time to start a transition.
+ * 
+ * The browser part avoids named helper functions - tsx wraps them in __name()
+ * calls which don't exist in the browser context.
+ */
+const waitForSettled = async (page: Page, config: ExportConfig, maxWait: number): Promise<boolean> => {
+  const settle = config.settle || {};
+  if (settle.enabled === false) {
+    await new Promise(resolve => setTimeout(resolve, maxWait));
+    return false;
+  }
+
+  const deadline = Date.now() + maxWait;
+  const minWait = Math.min(settle.minWait ?? 100, maxWait);
+  await new Promise(resolve => setTimeout(resolve, minWait));
+
+  // Fonts, images, animations and mutation idle window (in browser)
+  let settled = false;
+  try {
+    settled = await page.evaluate(async (selector, idleTime, timeout) => {
+      const start = performance.now();
+      const timeoutPromise = new Promise((resolve) => setTimeout(resolve, timeout));
+
+      await Promise.race([document.fonts.ready, timeoutPromise]);
+      await Promise.race([
+        Promise.all(Array.from(document.images).map((img) => img.decode().catch(() => undefined))),
+        timeoutPromise,
+      ]);
+
+      const root = document.querySelector(selector) || document.body;
+      return new Promise<boolean>((resolve) => {
+        let lastMutation = performance.now();
+        const observer = new MutationObserver(() => {
+          lastMutation = performance.now();
+        });
+        observer.observe(root, { subtree: true, childList: true, attributes: true, characterData: true });
+
+        const timer = setInterval(() => {
+          const now = performance.now();
+          const running = document.getAnimations().filter((animation) => {
+            const endTime = animation.effect?.getComputedTiming().endTime;
+            return animation.playState === 'running' && endTime !== Infinity;
+          });
+
+          if (running.length === 0 && now - lastMutation >= idleTime) {
+            clearInterval(timer);
+            observer.disconnect();
+            resolve(true);
+          } else if (now - start >= timeout) {
+            clearInterval(timer);
+            observer.disconnect();
+            resolve(false);
           }
-          return true; // No terminal found, proceed
-        },
-        { timeout: waitTime }
-      );
-    } catch (e) {
-      // Continue if timeout
+        }, 50);
+      });
+    }, config.selectors.mainContent, settle.idleTime ?? 300, Math.max(deadline - Date.now(), 0));
+  } catch (e) {
+    // Page navigated or evaluation failed - fall back to the remaining time
+  }
+
+  // Two consecutive identical screenshots
+  if (settled && settle.screenshotCheck !== false) {
+    settled = false;
+    let previousHash = '';
+    while (Date.now() < deadline) {
+      const frame = await page.screenshot({ type: 'png', optimizeForSpeed: true });
+      const hash = createHash('sha1').update(frame).digest('hex');
+      if (hash === previousHash) {
+        settled = true;
+        break;
+      }
+      previousHash = hash;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  // Not settled - use up the rest of the upper bound, like the fixed wait did
+  const remaining = deadline - Date.now();
+  if (!settled && remaining > 0) {
+    await new Promise(resolve => setTimeout(resolve, remaining));
+  }
+
+  return settled;
+};
+
+/**
+ * Wait for animations to complete
+ * 
+ * For AI: This function handles the common problem of animations not being ready
+ * when screenshots are taken. It:
+ * 1. Waits until the page is settled, at most the base delay (see waitForSettled)
+ * 2. Uses waitForFunction to check if main content is visible (opacity > 0.9)
+ * 3. Has timeout handling to prevent infinite waits
+ * 
+ * We use waitForFunction instead of page.evaluate() with complex logic to avoid
+ * TypeScript compilation issues in browser context.
+ */
+const waitForAnimation = async (page: Page, config: ExportConfig, delay?: number): Promise<void> => {
+  const waitTime = delay || config.animationWaitTime;
+  
+  // Wait until settled (base delay is the upper bound)
+  await waitForSettled(page, config, waitTime);
+  
+  // Wait for main content to be visible using waitForFunction
+  // This avoids TypeScript compilation issues in browser context
+  try {
+    await page.waitForFunction(
+      (selector) => {
+        const main = document.querySelector(selector);
+        if (!main) return false;
+        const style = window.getComputedStyle(main);
+        return parseFloat(style.opacity) > 0.9;
+      },
+      { timeout: 3000 },
+      config.selectors.mainContent
+    );
+  } catch (e) {
+    // Continue if timeout - content might already be visible
+  }
+};
+
+/**
+ * Read a position (0-based) from an indicator element
+ * 
+ * For AI: Returns null if the element or number can't be found, so callers can
+ * tell "unknown" apart from "wrong". The number is extracted with the pattern's
+ * first capture group and shifted by base (what the first state shows).
+ */
+const readIndicator = async (page: Page, indicator: IndicatorConfig): Promise<number | null> => {
+  const value = await page.evaluate((ind) => {
+    const element = document.querySelector(ind.selector);
+    if (!element) return null;
+    const raw = ind.attribute ? element.getAttribute(ind.attribute) : element.textContent;
+    const match = raw ? raw.match(new RegExp(ind.pattern || '(\\d+)')) : null;
+    return match ? parseInt(match[1] ?? match[0]) : null;
+  }, indicator);
+
+  return value === null || isNaN(value) ? null : value - (indicator.base ?? 1);
+};
+
+/**
+ * Get slide indicator - indicators.slide or aria-valuenow of the progress bar
+ */
+function getSlideIndicator(config: ExportConfig): IndicatorConfig {
+  return config.indicators?.slide || { selector: config.selectors.progressBar, attribute: 'aria-valuenow' };
+}
+
+/**
+ * Get current slide index (0-based) from the slide indicator (progress bar by default)
+ */
+const getCurrentSlideIndex = async (page: Page, config: ExportConfig): Promise<number> => {
+  return (await readIndicator(page, getSlideIndicator(config))) ?? 0;
+};
+
+// Default keys for the keyboard strategy
+const SLIDE_KEYS = { next: 'ArrowRight', prev: 'ArrowLeft' };
+const SUB_SLIDE_KEYS = { next: 'ArrowDown', prev: 'ArrowUp' };
+
+/**
+ * Fill {placeholders} in a navigation template
+ */
+function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+/**
+ * Fill a URL template based on sourceUrl, keeping its query parameters
+ * 
+ * For AI: {url} is origin + path only - with the query in it, a path-style
+ * template ("{url}/slide/{slide}") would give "?theme=dark/slide/3". The query
+ * of sourceUrl (variant flags, devServerUrl parameters) is added back to the
+ * result, unless the template sets the same parameter itself.
+ */
+function fillUrlTemplate(template: string, sourceUrl: string, values: Record<string, number>): string {
+  const source = new URL(sourceUrl);
+  const target = new URL(fillTemplate(template, { ...values, url: `${source.origin}${source.pathname}`.replace(/\/$/, '') }));
+  source.searchParams.forEach((value, key) => {
+    if (!target.searchParams.has(key)) {
+      target.searchParams.set(key, value);
+    }
+  });
+  return target.toString();
+}
+
+/**
+ * Resolve navigation strategy for a slide
+ * 
+ * For AI: Per-slide overrides (navigation.overrides["7"]) win over the global
+ * strategy, which defaults to keyboard navigation (the original behavior).
+ */
+function resolveNavigationStrategy(config: ExportConfig, level: 'slide' | 'subSlide', slideIndex: number): NavigationStrategy {
+  const override = config.navigation?.overrides?.[slideIndex.toString()]?.[level];
+  return override || config.navigation?.[level] || { type: 'keyboard' };
+}
+
+/**
+ * Check if a strategy jumps directly to a target (vs. stepping next/prev)
+ */
+function isAbsoluteStrategy(strategy: NavigationStrategy): boolean {
+  return strategy.type === 'url' || (strategy.type === 'api' && !!strategy.goTo);
+}
+
+/**
+ * Move one step (next/prev) with a relative strategy
+ */
+const stepWithStrategy = async (
+  page: Page,
+  strategy: NavigationStrategy,
+  direction: 'next' | 'prev',
+  defaultKeys: { next: string; prev: string }
+): Promise<void> => {
+  if (strategy.type === 'keyboard') {
+    await page.keyboard.press((strategy[direction] || defaultKeys[direction]) as KeyInput);
+  } else if (strategy.type === 'click' && strategy[direction]) {
+    await page.click(strategy[direction]!);
+  } else if (strategy.type === 'api' && strategy[direction]) {
+    await page.evaluate(strategy[direction]!);
+  } else {
+    throw new Error(`Navigation strategy "${strategy.type}" has no "${direction}" configured`);
+  }
+};
+
+/**
+ * Jump directly to a target with an absolute strategy (url / api.goTo)
+ * 
+ * For AI: {url} is the presentation URL without query, hash and trailing slash,
+ * so templates like "{url}/#/slide/{slide}" or "{url}?slide={slide}" both work.
+ */
+const jumpWithStrategy = async (
+  page: Page,
+  strategy: NavigationStrategy,
+  values: Record<string, number>
+): Promise<void> => {
+  const currentUrl = new URL(page.url());
+  const baseUrl = `${currentUrl.origin}${currentUrl.pathname}`.replace(/\/$/, '');
+
+  if (strategy.type === 'url') {
+    await page.goto(fillUrlTemplate(strategy.template, page.url(), values), { waitUntil: 'networkidle0' });
+  } else if (strategy.type === 'api' && strategy.goTo) {
+    await page.evaluate(fillTemplate(strategy.goTo, { ...values, url: baseUrl }));
+  } else {
+    throw new Error(`Navigation strategy "${strategy.type}" can't jump to a slide`);
+  }
+};
+
+/**
+ * Navigate to a specific slide
+ * 
+ * For AI: By default this uses keyboard navigation (Arrow keys) which is more reliable
+ * than clicking buttons (which can be detached from DOM during animations).
+ * It:
+ * 1. Gets current slide from progress bar
+ * 2. Jumps directly with an absolute strategy (url, api.goTo), or
+ * 3. Calculates steps needed and steps next/prev (keyboard, click, api.next/prev) -
+ *    each step uses the strategy of the slide being left
+ * 4. Waits for animations between each step
+ */
+const navigateToSlide = async (page: Page, slideIndex: number, config: ExportConfig): Promise<void> => {
+  // Get current slide from progress bar
+  const currentSlide = await getCurrentSlideIndex(page, config);
+
+  const steps = slideIndex - currentSlide;
+  if (steps === 0) {
+    await waitForAnimation(page, config, 500);
+    return;
+  }
+
+  const targetStrategy = resolveNavigationStrategy(config, 'slide', slideIndex);
+  if (isAbsoluteStrategy(targetStrategy)) {
+    await jumpWithStrategy(page, targetStrategy, { slide: slideIndex + 1, index: slideIndex });
+    await waitForAnimation(page, config, config.slideTransitionWaitTime);
+    return;
+  }
+
+  const direction = steps > 0 ? 'next' : 'prev';
+  for (let i = 0; i < Math.abs(steps); i++) {
+    const leavingSlide = currentSlide + (steps > 0 ? i : -i);
+    const strategy = resolveNavigationStrategy(config, 'slide', leavingSlide);
+    await stepWithStrategy(page, strategy, direction, SLIDE_KEYS);
+    await waitForAnimation(page, config, config.slideTransitionWaitTime);
+  }
+};
+
+/**
+ * Navigate through sub-slides
+ * 
+ * For AI: Sub-slides are navigated with ArrowDown/ArrowUp keys by default
+ * (or the configured strategy). target is where the move should end up - absolute
+ * strategies jump there directly, relative ones just step down/up.
+ * We wait longer (subSlideTransitionWaitTime) because sub-slides often have
+ * typewriter effects or complex animations that take time to complete.
+ */
+const navigateSubSlide = async (
+  page: Page,
+  direction: 'down' | 'up',
+  config: ExportConfig,
+  target: { slideIndex: number; sub: number }
+): Promise<void> => {
+  const strategy = resolveNavigationStrategy(config, 'subSlide', target.slideIndex);
+  if (isAbsoluteStrategy(strategy)) {
+    await jumpWithStrategy(page, strategy, { slide: target.slideIndex + 1, index: target.slideIndex, sub: target.sub });
+  } else {
+    await stepWithStrategy(page, strategy, direction === 'down' ? 'next' : 'prev', SUB_SLIDE_KEYS);
+  }
+  await waitForAnimation(page, config, config.subSlideTransitionWaitTime);
+};
+
+/**
+ * Fingerprint the current slide state
+ * 
+ * For AI: Used by auto-discovery and navigation verification to tell whether
+ * a keypress changed anything.
+ * The DOM fingerprint ignores inline styles by default - animation libraries
+ * keep rewriting transform/opacity, which would look like endless new states
+ * during discovery. Sub-slide verification passes styles: true, as sub-slides
+ * may differ only in transform/opacity (a missed change would skip a state).
+ * The visual fingerprint is stricter but sensitive to blinking cursors etc.
+ */
+const fingerprintState = async (page: Page, config: ExportConfig, options: { styles?: boolean } = {}): Promise<string> => {
+  if (config.discovery?.fingerprint === 'visual') {
+    const element = await page.$(config.selectors.mainContent);
+    const image = element
+      ? await element.screenshot({ type: 'png' })
+      : await page.screenshot({ type: 'png' });
+    return createHash('sha1').update(image).digest('hex');
+  }
+
+  const domSignature = await page.evaluate((selector, styles) => {
+    const root = document.querySelector(selector) || document.body;
+    const parts: string[] = [];
+    root.querySelectorAll('*').forEach((element) => {
+      parts.push(element.tagName, element.getAttribute('class') || '');
+      if (element instanceof HTMLImageElement) {
+        parts.push(element.src);
+      }
+      if (styles) {
+        const computed = getComputedStyle(element);
+        parts.push(element.getAttribute('style') || '', computed.transform, computed.opacity);
+      }
+    });
+    parts.push(root.textContent || '');
+    return parts.join('|');
+  }, config.selectors.mainContent, options.styles === true);
+
+  return createHash('sha1').update(domSignature).digest('hex');
+};
+
+/**
+ * Discover slides and sub-slides at runtime
+ * 
+ * For AI: This replaces the hand-maintained totalSlides/slidesWithSubSlides,
+ * which silently rot whenever designers add a step. It:
+ * 1. Reads the slide count from aria-valuemax of the progress bar
+ * 2. On each slide presses ArrowDown (or steps with the configured sub-slide
+ *    navigation strategy) until the fingerprint stops changing
+ *    (sub-slides - ArrowDown does nothing on the last one) or repeats
+ *    (steps - they cycle back to step 1)
+ * 3. Restores the first sub-slide so the export starts from a clean state
+ * If ArrowDown changes the main slide, the slide has no sub-slides.
+ */
+const discoverSlideStructure = async (
+  page: Page,
+  config: ExportConfig
+): Promise<Pick<ExportConfig, 'totalSlides' | 'slidesWithSubSlides'>> => {
+  const maxStates = config.discovery?.maxStates || 30;
+
+  const ariaValueMax = await page.evaluate((selector) => {
+    return document.querySelector(selector)?.getAttribute('aria-valuemax') || null;
+  }, config.selectors.progressBar);
+  const totalSlides = ariaValueMax ? parseInt(ariaValueMax) : config.totalSlides;
+  if (!ariaValueMax) {
+    console.warn(`⚠️  Progress bar has no aria-valuemax, using totalSlides from config (${totalSlides})`);
+  }
+
+  const slidesWithSubSlides: Record<string, SlideConfig> = {};
+
+  for (let slideIndex = 0; slideIndex < totalSlides; slideIndex++) {
+    await navigateToSlide(page, slideIndex, config);
+    await waitForAnimation(page, config, config.subSlideTransitionWaitTime);
+
+    const seen = [await fingerprintState(page, config)];
+    let type: SlideConfig['type'] | null = null;
+
+    while (seen.length < maxStates) {
+      await navigateSubSlide(page, 'down', config, { slideIndex, sub: seen.length });
+
+      // ArrowDown moved to another slide - no sub-slides here
+      if (await getCurrentSlideIndex(page, config) !== slideIndex) {
+        seen.length = 1;
+        break;
+      }
+
+      const fingerprint = await fingerprintState(page, config);
+      if (fingerprint === seen[seen.length - 1]) {
+        type = 'subSlide';
+        break;
+      }
+      if (seen.includes(fingerprint)) {
+        type = 'step';
+        break;
+      }
+      seen.push(fingerprint);
+    }
+
+    if (seen.length >= maxStates) {
+      console.warn(`⚠️  Slide ${slideIndex + 1}: stopped after ${maxStates} states (discovery.maxStates)`);
+      type = 'subSlide';
+    }
+
+    if (type && seen.length > 1) {
+      slidesWithSubSlides[slideIndex.toString()] = type === 'subSlide'
+        ? { type, max: seen.length - 1, comment: `Auto-discovered: ${seen.length} sub-slides (0-${seen.length - 1})` }
+        : { type, max: seen.length, comment: `Auto-discovered: ${seen.length} steps (1-${seen.length})` };
+
+      // Back to the first sub-slide (steps already cycled back to step 1)
+      if (type === 'subSlide') {
+        for (let sub = seen.length - 2; sub >= 0; sub--) {
+          await navigateSubSlide(page, 'up', config, { slideIndex, sub });
+        }
+      }
+    }
+  }
+
+  // Start the export from the first slide
+  await navigateToSlide(page, 0, config);
+
+  return { totalSlides, slidesWithSubSlides };
+};
+
+/**
+ * Write discovered structure back to pdf-export.config.json
+ * 
+ * For AI: Only totalSlides and slidesWithSubSlides are replaced - the rest of
+ * the file is kept as is.
+ */
+function writeDiscoveredStructure(structure: Pick<ExportConfig, 'totalSlides' | 'slidesWithSubSlides'>): void {
+  const rawConfig = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+  rawConfig.totalSlides = structure.totalSlides;
+  rawConfig.slidesWithSubSlides = structure.slidesWithSubSlides;
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(rawConfig, null, 2) + '\n');
+}
+
+/**
+ * Hide UI elements for clean screenshots
+ * 
+ * For AI: This hides header, navigation, progress bar, and sub-slide indicators
+ * to create cleaner PDF pages. The selectors are configurable in config.json
+ * to work with different project structures.
+ */
+const hideUIElements = async (page: Page, config: ExportConfig): Promise<void> => {
+  await page.evaluate((selectors) => {
+    // Hide header
+    const header = document.querySelector(selectors.header);
+    if (header) {
+      (header as HTMLElement).style.display = 'none';
+    }
+    // Hide navigation
+    const nav = document.querySelector(selectors.navigation);
+    if (nav) {
+      (nav as HTMLElement).style.display = 'none';
+    }
+    // Hide progress bar
+    const progressBar = document.querySelector(selectors.progressBar);
+    if (progressBar) {
+      (progressBar as HTMLElement).style.display = 'none';
+    }
+  }, config.selectors);
+  
+  await waitForAnimation(page, config, 300);
+};
+
+/**
+ * Wait for slide content to be fully loaded
+ * 
+ * For AI: Generic waiting only - deck-specific quirks (like the typewriter
+ * effect, see DEFAULT_HOOKS) run in the beforeScreenshot hook at the end.
+ */
+const waitForSlideContent = async (page: Page, context: HookContext, config: ExportConfig): Promise<void> => {
+  // Wait for main content to be visible
+  try {
+    await page.waitForSelector(config.selectors.mainContent, { visible: true, timeout: 5000 });
+  } catch (e) {
+    // Continue anyway if selector not found
+  }
+
+  // General wait for all animations
+  await waitForAnimation(page, config, 1500);
+
+  await config.hooks?.beforeScreenshot?.(page, context);
+};
+
+/**
+ * Default hooks - Figma Make quirks that used to be hardcoded
+ * 
+ * For AI: A config's own hooks replace these one by one. To keep the default
+ * behavior and add to it, call DEFAULT_HOOKS.beforeScreenshot(page, context)
+ * from your hook (it's exported next to defineConfig).
+ * - hides the sub-slide counter ("3 / 9" in a fixed bottom bar)
+ * - waits for typewriter effects on slides with specialSlides.N.typewriterEffect
+ *   (a terminal is done when it shows more than 20 lines)
+ */
+const DEFAULT_HOOKS: ExportHooks = {
+  beforeScreenshot: async (page, { slideIndex, config }) => {
+    await page.evaluate(() => {
+      document.querySelectorAll('[class*="fixed bottom"]').forEach((indicator) => {
+        if (indicator.textContent?.includes('/')) {
+          (indicator as HTMLElement).style.display = 'none';
+        }
+      });
+    });
+
+    const specialSlide = config.specialSlides?.[slideIndex.toString()];
+    if (!specialSlide?.typewriterEffect) {
+      return;
+    }
+    const waitTime = specialSlide.typewriterWaitTime || 3000;
+
+    // Wait for typewriter effect to complete
+    try {
+      await page.waitForFunction(
+        () => {
+          // Look for terminal or typewriter content
+          const terminal = document.querySelector('[class*="Terminal"]') ||
+                          document.querySelector('[class*="terminal"]');
+          if (terminal) {
+            const lines = terminal.querySelectorAll('div, p, span');
+            return lines.length > 20; // Typewriter should show many lines when done
+          }
+          return true; // No terminal found, proceed
+        },
+        { timeout: waitTime }
+      );
+    } catch (e) {
+      // Continue if timeout
+    }
+
+    // Extra wait for typewriter (upper bound when settle detection is on)
+    await waitForSettled(page, config, waitTime);
+  },
+};
+
+// Link area in document coordinates (CSS px, top-left origin)
+interface LinkBox {
+  href: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One rendered line of text in document coordinates (CSS px, top-left origin)
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+}
+
+// DOM data drawn on top of a capture (clickable links, invisible text)
+interface PageOverlay {
+  // CSS width of the captured document - maps DOM coordinates to capture units
+  documentWidth: number;
+  links: LinkBox[];
+  textRuns: TextRun[];
+}
+
+/**
+ * Collect visible links and text from the page
+ * 
+ * For AI: Screenshot pages are flat images, so links would be dead and text
+ * unsearchable in the PDF. We collect:
+ * - every visible <a href> with its client rects (a wrapped link has several)
+ * - every visible text node, measured word by word and merged into lines,
+ *   so the invisible text lands exactly on the rendered glyphs
+ * All rects are converted to document coordinates - full-page screenshots
+ * start at the top of the document, not at the current scroll position.
+ * Only external links are kept - in-app links (#hash, javascript:) don't
+ * work outside the presentation anyway.
+ * 
+ * Note: no named helper functions inside page.evaluate() - tsx wraps them in
+ * __name() calls which don't exist in the browser context.
+ */
+const collectPageOverlay = async (page: Page, options: { links: boolean; text: boolean }): Promise<PageOverlay> => {
+  return page.evaluate((opts) => {
+    const links: Array<{ href: string; x: number; y: number; width: number; height: number }> = [];
+    const textRuns: Array<{ text: string; x: number; y: number; width: number; height: number; fontSize: number }> = [];
+
+    if (opts.links) {
+      document.querySelectorAll('a[href]').forEach((anchor) => {
+        const href = (anchor as HTMLAnchorElement).href;
+        if (!/^(https?:|mailto:|tel:)/.test(href)) return;
+        if (href.split('#')[0] === window.location.href.split('#')[0] && href.includes('#')) return;
+
+        const style = window.getComputedStyle(anchor);
+        if (style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0) return;
+
+        Array.from(anchor.getClientRects()).forEach((rect) => {
+          if (rect.width < 1 || rect.height < 1) return;
+          links.push({
+            href,
+            x: rect.left + window.scrollX,
+            y: rect.top + window.scrollY,
+            width: rect.width,
+            height: rect.height,
+          });
+        });
+      });
+    }
+
+    if (opts.text) {
+      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+      const range = document.createRange();
+      let node: Node | null;
+
+      while ((node = walker.nextNode())) {
+        const parent = node.parentElement;
+        const content = node.textContent || '';
+        if (!parent || !content.trim() || parent.closest('script, style, noscript')) continue;
+
+        const style = window.getComputedStyle(parent);
+        if (style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0) continue;
+
+        const fontSize = parseFloat(style.fontSize) || 16;
+        const lines: Array<{ text: string; x: number; y: number; right: number; height: number }> = [];
+
+        // Measure word by word, merge words on the same line
+        const wordPattern = /\S+/g;
+        let match: RegExpExecArray | null;
+        while ((match = wordPattern.exec(content))) {
+          range.setStart(node, match.index);
+          range.setEnd(node, match.index + match[0].length);
+          const rect = range.getBoundingClientRect();
+          if (rect.width < 1 || rect.height < 1) continue;
+
+          const last = lines[lines.length - 1];
+          if (last && Math.abs(last.y - rect.top) < rect.height / 2 && rect.left >= last.right - 1) {
+            last.text += ` ${match[0]}`;
+            last.right = rect.right;
+            last.height = Math.max(last.height, rect.height);
+          } else {
+            lines.push({ text: match[0], x: rect.left, y: rect.top, right: rect.right, height: rect.height });
+          }
+        }
+
+        lines.forEach((line) => {
+          textRuns.push({
+            text: line.text,
+            x: line.x + window.scrollX,
+            y: line.y + window.scrollY,
+            width: line.right - line.x,
+            height: line.height,
+            fontSize,
+          });
+        });
+      }
+    }
+
+    return {
+      documentWidth: Math.max(document.documentElement.scrollWidth, window.innerWidth),
+      links,
+      textRuns,
+    };
+  }, options);
+};
+
+/**
+ * Prepare the current state for capturing
+ * 
+ * For AI: Applies the viewport and waits for the content (incl. the
+ * beforeScreenshot hook). captureState calls this before the cache lookup,
+ * so the cache fingerprint sees the state exactly as it gets captured.
+ */
+const settleState = async (page: Page, context: HookContext, config: ExportConfig): Promise<void> => {
+  // Set viewport from config
+  await page.setViewport({
+    width: config.viewport.width,
+    height: config.viewport.height,
+    deviceScaleFactor: config.viewport.deviceScaleFactor,
+  });
+
+  // Wait for slide content to be fully loaded
+  await waitForSlideContent(page, context, config);
+};
+
+/**
+ * Take full page screenshot
+ * 
+ * For AI: This takes a full-page screenshot (not just viewport) using
+ * fullPage: true and captureBeyondViewport: true. This ensures we capture
+ * all content even if it's longer than the viewport.
+ * Expects a settled page (see settleState).
+ */
+const takeScreenshot = async (page: Page): Promise<Buffer> => {
+  // Take full page screenshot
+  const screenshot = await page.screenshot({
+    type: 'png',
+    fullPage: true,
+    captureBeyondViewport: true,
+  });
+
+  return screenshot as Buffer;
+};
+
+/**
+ * Render current state with Chromium's native PDF output
+ * 
+ * For AI: This is the vector counterpart of takeScreenshot. It prints a single page sized to the viewport
+ * width and the full document height (like fullPage screenshots) so nothing
+ * gets cut off. Text stays selectable/searchable and crisp at any zoom.
+ * pageRanges '1' guards against Chromium splitting tall content.
+ * Expects a settled page (see settleState).
+ */
+const takeVectorPage = async (page: Page, config: ExportConfig): Promise<Uint8Array> => {
+  // Measure full document height (equivalent of fullPage: true)
+  const contentHeight = await page.evaluate(() => {
+    return Math.max(
+      document.documentElement.scrollHeight,
+      document.body ? document.body.scrollHeight : 0
+    );
+  });
+  const pageHeight = Math.max(contentHeight, config.viewport.height);
+
+  const pdfBytes = await page.pdf({
+    width: `${config.viewport.width}px`,
+    height: `${pageHeight}px`,
+    printBackground: true,
+    pageRanges: '1',
+    margin: { top: 0, right: 0, bottom: 0, left: 0 },
+  });
+
+  return pdfBytes;
+};
+
+// Placement of a captured state (or a slice of it) on one PDF page.
+// Source coordinates are top-left based (like the DOM), page coordinates
+// are bottom-left based (like PDF).
+interface PagePlacement {
+  pageWidth: number;
+  pageHeight: number;
+  // Visible source region (vertical slice of the capture)
+  sourceY: number;
+  sourceHeight: number;
+  // Bottom-left corner of the visible region on the page and scale factor
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Resolve PDF page size from pdfFormat and landscape
+ * 
+ * For AI: Named formats come from pdf-lib's PageSizes (A4, Letter, Legal, A3...),
+ * matched case-insensitively because the installer accepts free text.
+ * "Custom" uses customWidth/customHeight (in PDF points).
+ * "Screenshot" keeps the old behavior - page size equals the capture size.
+ * Returns null for "Screenshot" so the caller can size pages per capture.
+ */
+function resolvePageSize(config: ExportConfig): [number, number] | null {
+  const format = (config.pdfFormat || 'A4').toLowerCase();
+
+  if (format === 'screenshot') {
+    return null;
+  }
+
+  let size: [number, number];
+  if (format === 'custom') {
+    if (!config.customWidth || !config.customHeight) {
+      throw new Error('pdfFormat "Custom" requires customWidth and customHeight');
+    }
+    size = [config.customWidth, config.customHeight];
+  } else {
+    const key = Object.keys(PageSizes).find((name) => name.toLowerCase() === format);
+    if (!key) {
+      throw new Error(`Unknown pdfFormat "${config.pdfFormat}" (expected A4, Letter, Custom, Screenshot...)`);
+    }
+    size = [...PageSizes[key as keyof typeof PageSizes]];
+  }
+
+  // Orientation - landscape means width > height
+  const [short, long] = size[0] < size[1] ? size : [size[1], size[0]];
+  return config.landscape ? [long, short] : [short, long];
+}
+
+/**
+ * Resolve page margins (points) from pageLayout.margin
+ */
+function resolveMargins(layout: PageLayoutConfig): { top: number; right: number; bottom: number; left: number } {
+  const margin = layout.margin ?? 0;
+  if (typeof margin === 'number') {
+    return { top: margin, right: margin, bottom: margin, left: margin };
+  }
+  return margin;
+}
+
+/**
+ * Compute page placements for a capture
+ * 
+ * For AI: This is the single place that decides how a capture maps onto PDF pages,
+ * used by both render modes. With fit "contain" the capture is scaled down (or up)
+ * to fit inside the margins and aligned. With fit "fitWidth" the capture is scaled to
+ * the content width and, if taller than a page, split into consecutive slices.
+ * Anything that overlays the capture (links, text) must map coordinates through
+ * these placements so it lands in the same spot.
+ */
+function computePagePlacements(sourceWidth: number, sourceHeight: number, config: ExportConfig): PagePlacement[] {
+  const layout = config.pageLayout || {};
+  const margins = resolveMargins(layout);
+  const pageSize = resolvePageSize(config);
+
+  // "Screenshot" format - page wraps the capture (plus margins) at scale 1
+  if (!pageSize) {
+    return [{
+      pageWidth: sourceWidth + margins.left + margins.right,
+      pageHeight: sourceHeight + margins.top + margins.bottom,
+      sourceY: 0,
+      sourceHeight,
+      x: margins.left,
+      y: margins.bottom,
+      scale: 1,
+    }];
+  }
+
+  const [pageWidth, pageHeight] = pageSize;
+  const boxWidth = pageWidth - margins.left - margins.right;
+  const boxHeight = pageHeight - margins.top - margins.bottom;
+  if (boxWidth <= 0 || boxHeight <= 0) {
+    throw new Error('pageLayout.margin leaves no room for content');
+  }
+
+  const fit = layout.fit || 'contain';
+  const scale = fit === 'fitWidth'
+    ? boxWidth / sourceWidth
+    : Math.min(boxWidth / sourceWidth, boxHeight / sourceHeight);
+
+  const alignX = (width: number): number => {
+    const free = boxWidth - width;
+    if (layout.horizontalAlign === 'left') return margins.left;
+    if (layout.horizontalAlign === 'right') return margins.left + free;
+    return margins.left + free / 2;
+  };
+  const alignY = (height: number): number => {
+    const free = boxHeight - height;
+    if (layout.verticalAlign === 'top') return margins.bottom + free;
+    if (layout.verticalAlign === 'bottom') return margins.bottom;
+    return margins.bottom + free / 2;
+  };
+
+  // Fits on one page - align inside the content box
+  if (sourceHeight * scale <= boxHeight + 0.01) {
+    return [{
+      pageWidth,
+      pageHeight,
+      sourceY: 0,
+      sourceHeight,
+      x: alignX(sourceWidth * scale),
+      y: alignY(sourceHeight * scale),
+      scale,
+    }];
+  }
+
+  // Tall capture (fitWidth) - split into page-height slices, each top-aligned
+  const sliceHeight = boxHeight / scale;
+  const placements: PagePlacement[] = [];
+  for (let sourceY = 0; sourceY < sourceHeight; sourceY += sliceHeight) {
+    const height = Math.min(sliceHeight, sourceHeight - sourceY);
+    placements.push({
+      pageWidth,
+      pageHeight,
+      sourceY,
+      sourceHeight: height,
+      x: alignX(sourceWidth * scale),
+      y: margins.bottom + boxHeight - height * scale,
+      scale,
+    });
+  }
+  return placements;
+}
+
+/**
+ * Map a document rect onto a page placement
+ * 
+ * For AI: sourceScale converts CSS px to capture units (image pixels for
+ * screenshots, points for vector pages). The rect is cut to the placement's
+ * visible slice - a link spanning two split pages gets a part on each.
+ * Returns null if the rect is not visible on this page.
+ */
+function mapRectToPage(
+  placement: PagePlacement,
+  sourceScale: number,
+  rect: { x: number; y: number; width: number; height: number }
+): { x: number; y: number; width: number; height: number } | null {
+  const top = Math.max(rect.y * sourceScale, placement.sourceY);
+  const bottom = Math.min((rect.y + rect.height) * sourceScale, placement.sourceY + placement.sourceHeight);
+  if (bottom <= top) {
+    return null;
+  }
+
+  const regionTop = placement.y + placement.sourceHeight * placement.scale;
+  return {
+    x: placement.x + rect.x * sourceScale * placement.scale,
+    y: regionTop - (bottom - placement.sourceY) * placement.scale,
+    width: rect.width * sourceScale * placement.scale,
+    height: (bottom - top) * placement.scale,
+  };
+}
+
+/**
+ * Add URI link annotations to a page
+ * 
+ * For AI: pdf-lib has no link API, so we create Link annotations with a URI
+ * action by hand (PDF spec 12.5.6.5). Border [0 0 0] keeps them invisible.
+ */
+function addLinkAnnotations(
+  pdfDoc: PDFDocument,
+  pdfPage: PDFPage,
+  placement: PagePlacement,
+  sourceScale: number,
+  links: LinkBox[]
+): void {
+  links.forEach((link) => {
+    const rect = mapRectToPage(placement, sourceScale, link);
+    if (!rect) return;
+
+    const annotation = pdfDoc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+      Border: [0, 0, 0],
+      A: {
+        Type: 'Action',
+        S: 'URI',
+        URI: PDFString.of(link.href),
+      },
+    });
+    pdfPage.node.addAnnot(pdfDoc.context.register(annotation));
+  });
+}
+
+// Letters that don't decompose with NFD but have an obvious ASCII fallback
+const TEXT_FALLBACKS: Record<string, string> = { 'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ı': 'i' };
+
+/**
+ * Reduce text to characters the standard font can encode
+ * 
+ * For AI: Standard PDF fonts (Helvetica) only support WinAnsi, and pdf-lib
+ * throws on anything else. Accented letters fall back to their base letter
+ * (ś -> s) so search still mostly works, unsupported characters (emoji,
+ * CJK) are dropped. The text layer is invisible, so there this never affects
+ * visuals - visible text (notes pages, placeholders) loses those characters.
+ */
+function toEncodableText(text: string, charset: Set<number>): string {
+  return Array.from(text).map((char) => {
+    if (charset.has(char.codePointAt(0)!)) return char;
+    const base = TEXT_FALLBACKS[char] || char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return Array.from(base).every((c) => charset.has(c.codePointAt(0)!)) ? base : '';
+  }).join('');
+}
+
+/**
+ * Draw invisible text runs on a page
+ * 
+ * For AI: Text is drawn with text render mode 3 (invisible) - it can be
+ * searched, selected and read by screen readers but doesn't paint anything,
+ * so the screenshot stays pixel-perfect. Each run is squeezed horizontally
+ * (Tz) to the rendered line width so selection highlights match the image.
+ * A run is placed on the split page that shows most of it.
+ */
+function addInvisibleText(
+  pdfPage: PDFPage,
+  font: PDFFont,
+  charset: Set<number>,
+  placement: PagePlacement,
+  sourceScale: number,
+  textRuns: TextRun[]
+): void {
+  const fontKey = pdfPage.node.newFontDictionary(font.name, font.ref);
+  const scale = sourceScale * placement.scale;
+
+  textRuns.forEach((run) => {
+    const rect = mapRectToPage(placement, sourceScale, run);
+    if (!rect || rect.height < (run.height * scale) / 2) return;
+
+    const text = toEncodableText(run.text, charset);
+    const fontSize = run.fontSize * scale;
+    const textWidth = font.widthOfTextAtSize(text, fontSize);
+    if (!text.trim() || textWidth <= 0 || fontSize <= 0) return;
+
+    // Baseline sits roughly a fifth of the font size above the bottom of the line box
+    const lineBottom = rect.y + rect.height - run.height * scale;
+    const baseline = lineBottom + (run.height * scale - fontSize) / 2 + fontSize * 0.2;
+
+    pdfPage.pushOperators(
+      beginText(),
+      setFontAndSize(fontKey, fontSize),
+      setTextRenderingMode(TextRenderingMode.Invisible),
+      setCharacterSqueeze((rect.width / textWidth) * 100),
+      setTextMatrix(1, 0, 0, 1, rect.x, baseline),
+      showText(font.encodeText(text)),
+      endText()
+    );
+  });
+}
+
+/**
+ * Parse "#rrggbb" / "#rgb" into a pdf-lib color
+ */
+function parseHexColor(hex: string) {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+  const num = parseInt(full, 16);
+  if (full.length !== 6 || isNaN(num)) {
+    throw new Error(`Invalid color "${hex}" (expected #rrggbb)`);
+  }
+  return rgb(((num >> 16) & 255) / 255, ((num >> 8) & 255) / 255, (num & 255) / 255);
+}
+
+/**
+ * Add a page for a placement and draw the capture into it
+ * 
+ * For AI: The capture is drawn at full size, positioned so that the placement's
+ * source slice lands in the visible region, and clipped to that region.
+ * This works the same for PNG images and embedded vector pages.
+ */
+const addPlacedPage = (
+  pdfDoc: PDFDocument,
+  placement: PagePlacement,
+  sourceHeight: number,
+  config: ExportConfig,
+  draw: (pdfPage: PDFPage, x: number, y: number) => void
+): PDFPage => {
+  const pdfPage = pdfDoc.addPage([placement.pageWidth, placement.pageHeight]);
+
+  // Background fill
+  const background = config.pageLayout?.background;
+  if (background) {
+    pdfPage.drawRectangle({
+      x: 0,
+      y: 0,
+      width: placement.pageWidth,
+      height: placement.pageHeight,
+      color: parseHexColor(background),
+    });
+  }
+
+  const regionTop = placement.y + placement.sourceHeight * placement.scale;
+  const drawY = regionTop + placement.sourceY * placement.scale - sourceHeight * placement.scale;
+
+  pdfPage.pushOperators(
+    pushGraphicsState(),
+    rectangle(placement.x, placement.y, pdfPage.getWidth(), placement.sourceHeight * placement.scale),
+    clip(),
+    endPath()
+  );
+  draw(pdfPage, placement.x, drawY);
+  pdfPage.pushOperators(popGraphicsState());
+
+  return pdfPage;
+};
+
+// File extension of saved screenshots
+const IMAGE_EXTENSIONS: Record<ImageFormat, string> = { png: '.png', jpeg: '.jpg', webp: '.webp' };
+
+/**
+ * Image format and quality for a slide - image.overrides["7"] wins over the image defaults
+ */
+function resolveImageEncoding(config: ExportConfig, slideIndex: number): Required<ImageEncoding> {
+  const override = config.image?.overrides?.[slideIndex.toString()];
+  return {
+    format: override?.format ?? config.image?.format ?? 'png',
+    quality: override?.quality ?? config.image?.quality ?? 85,
+  };
+}
+
+/**
+ * Image format from the file signature (null if unknown)
+ */
+function detectImageFormat(image: Buffer): ImageFormat | null {
+  if (image.length > 8 && image.readUInt32BE(0) === 0x89504e47) {
+    return 'png';
+  }
+  if (image.length > 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (image.length > 12 && image.toString('ascii', 0, 4) === 'RIFF' && image.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+/**
+ * Pixel size of a PNG (IHDR chunk) or JPEG (SOF marker), null for other images
+ */
+function readImageSize(image: Buffer): { width: number; height: number } | null {
+  const format = detectImageFormat(image);
+  if (format === 'png') {
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+  }
+  if (format !== 'jpeg') {
+    return null;
+  }
+
+  // Walk the marker segments to the first start-of-frame (SOF0-SOF15 without DHT, JPG and DAC)
+  let offset = 2;
+  while (offset + 9 < image.length && image[offset] === 0xff) {
+    const marker = image[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: image.readUInt16BE(offset + 7), height: image.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + image.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+// Blank page per browser for image work, see getImagePage
+const IMAGE_PAGES = new WeakMap<Browser, Promise<Page>>();
+
+/**
+ * Blank page for decoding and encoding images
+ * 
+ * For AI: Screenshots are loaded from data: URLs, which a deck with a strict
+ * img-src CSP blocks - so image work runs in an about:blank page of the same
+ * browser instead of the deck's page. Opened once, shared by all pool pages.
+ */
+const getImagePage = async (browser: Browser): Promise<Page> => {
+  const pending = IMAGE_PAGES.get(browser);
+  const existing = pending ? await pending.catch(() => null) : null;
+  if (existing && !existing.isClosed()) {
+    return existing;
+  }
+  const page = browser.newPage();
+  IMAGE_PAGES.set(browser, page);
+  return page;
+};
+
+/**
+ * Encode a screenshot as JPEG or WebP in the browser
+ * 
+ * For AI: Chromium's canvas encoder does the work (like diffScreenshots), so no
+ * image library is needed. JPEG has no alpha - transparent pixels become white.
+ * Pass a blank page (getImagePage), not the deck's - its CSP may block data: URLs.
+ */
+const encodeImage = async (page: Page, image: Buffer, format: 'jpeg' | 'webp', quality: number): Promise<Buffer> => {
+  const encoded = await page.evaluate(async (src, type, level) => {
+    const img = new Image();
+    img.src = src;
+    await img.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(img, 0, 0);
+    return canvas.toDataURL(type, level).split(',')[1];
+  }, `data:image/${detectImageFormat(image) ?? 'png'};base64,${image.toString('base64')}`, `image/${format}`, quality / 100);
+
+  return Buffer.from(encoded, 'base64');
+};
+
+/**
+ * Convert a PNG or JPEG screenshot to PDF page(s)
+ * 
+ * For AI: Page size comes from pdfFormat/landscape (see resolvePageSize) and the
+ * screenshot is scaled into the page according to pageLayout. Use pdfFormat
+ * "Screenshot" to get the old behavior (page size equals the screenshot size).
+ * Tall full-page screenshots may produce several pages with fit "fitWidth".
+ * Links and text from the overlay are added on top of the image.
+ */
+const convertImageToPDF = async (imageBuffer: Buffer, config: ExportConfig, overlay?: PageOverlay): Promise<PDFDocument> => {
+  const pdfDoc = await PDFDocument.create();
+  
+  // Load PNG or JPEG image
+  const image = detectImageFormat(imageBuffer) === 'jpeg'
+    ? await pdfDoc.embedJpg(new Uint8Array(imageBuffer)) // copy - pdf-lib ignores the offset of pooled Buffers
+    : await pdfDoc.embedPng(imageBuffer);
+  
+  // Get image dimensions (in CSS pixels - a 2x screenshot keeps the 1x page size)
+  const imageDims = image.scale(1 / (config.viewport.deviceScaleFactor ?? 1));
+  
+  // Standard font for the invisible text layer
+  const font = overlay && overlay.textRuns.length > 0 ? await pdfDoc.embedFont(StandardFonts.Helvetica) : null;
+  const charset = new Set(font ? font.getCharacterSet() : []);
+
+  const placements = computePagePlacements(imageDims.width, imageDims.height, config);
+  placements.forEach((placement) => {
+    const pdfPage = addPlacedPage(pdfDoc, placement, imageDims.height, config, (targetPage, x, y) => {
+      targetPage.drawImage(image, {
+        x,
+        y,
+        width: imageDims.width * placement.scale,
+        height: imageDims.height * placement.scale,
+      });
+    });
+
+    if (overlay) {
+      const sourceScale = imageDims.width / overlay.documentWidth;
+      addLinkAnnotations(pdfDoc, pdfPage, placement, sourceScale, overlay.links);
+      if (font) {
+        addInvisibleText(pdfPage, font, charset, placement, sourceScale, overlay.textRuns);
+      }
+    }
+  });
+  
+  return pdfDoc;
+};
+
+/**
+ * Convert Chromium PDF output to laid-out PDF page(s)
+ * 
+ * For AI: The vector page is embedded as a form XObject and placed exactly like
+ * a screenshot would be, so pdfFormat/pageLayout behave the same in both modes
+ * and the content stays vector. With pdfFormat "Screenshot" the page is copied
+ * as-is instead (keeps Chromium's own link annotations). Embedded pages lose
+ * their annotations, so links from the overlay are added back.
+ */
+const convertVectorToPDF = async (pdfBytes: Uint8Array, config: ExportConfig, overlay?: PageOverlay): Promise<PDFDocument> => {
+  const sourceDoc = await PDFDocument.load(pdfBytes);
+  const pdfDoc = await PDFDocument.create();
+
+  if (!resolvePageSize(config) && !config.pageLayout?.margin) {
+    const pages = await pdfDoc.copyPages(sourceDoc, sourceDoc.getPageIndices());
+    pages.forEach((pdfPage) => pdfDoc.addPage(pdfPage));
+    return pdfDoc;
+  }
+
+  const embedded = await pdfDoc.embedPage(sourceDoc.getPage(0));
+  const placements = computePagePlacements(embedded.width, embedded.height, config);
+  placements.forEach((placement) => {
+    const pdfPage = addPlacedPage(pdfDoc, placement, embedded.height, config, (targetPage, x, y) => {
+      targetPage.drawPage(embedded, {
+        x,
+        y,
+        width: embedded.width * placement.scale,
+        height: embedded.height * placement.scale,
+      });
+    });
+
+    if (overlay) {
+      addLinkAnnotations(pdfDoc, pdfPage, placement, embedded.width / overlay.documentWidth, overlay.links);
+    }
+  });
+
+  return pdfDoc;
+};
+
+/**
+ * Read slide title
+ * 
+ * For AI: Titles from config (slideTitles, written by the installer from the
+ * slides array in App.tsx) win, because they are stable across sub-slides.
+ * Otherwise we use the first heading inside mainContent of the live DOM,
+ * and finally fall back to "Slide N".
+ */
+const getSlideTitle = async (page: Page, slideIndex: number, config: ExportConfig): Promise<string> => {
+  const configTitle = config.slideTitles?.[slideIndex];
+  if (configTitle) {
+    return configTitle;
+  }
+
+  const domTitle = await page.evaluate((selector) => {
+    const main = document.querySelector(selector);
+    const heading = main?.querySelector('h1, h2, h3, h4, h5, h6');
+    return heading?.textContent?.replace(/\s+/g, ' ').trim() || '';
+  }, config.selectors.mainContent);
+
+  return domTitle || `Slide ${slideIndex + 1}`;
+};
+
+/**
+ * Read speaker notes of the current state
+ * 
+ * For AI: Notes in the DOM (data-notes by default) win, because they can
+ * differ per sub-slide - only visible elements count, so notes of hidden
+ * sub-slides don't leak into the current one. Otherwise slideNotes from the
+ * config (written by the installer from the slides array in App.tsx) is used:
+ * a string applies to every state of the slide, an array has one entry per
+ * sub-slide/step.
+ */
+const getSlideNotes = async (
+  page: Page,
+  slideIndex: number,
+  sub: SubState | undefined,
+  config: ExportConfig
+): Promise<string | undefined> => {
+  if (config.notes?.enabled === false) {
+    return undefined;
+  }
+
+  const domNotes = await page.evaluate((attribute) => {
+    const values: string[] = [];
+    document.querySelectorAll(`[${attribute}]`).forEach((element) => {
+      const style = getComputedStyle(element);
+      const value = (element.getAttribute(attribute) || '').trim();
+      const visible = element.getClientRects().length > 0 && style.visibility !== 'hidden' && style.opacity !== '0';
+      if (value && visible && !values.includes(value)) {
+        values.push(value);
+      }
+    });
+    return values.join('\n\n');
+  }, config.notes?.attribute || 'data-notes');
+  if (domNotes) {
+    return domNotes;
+  }
+
+  const configNotes = config.slideNotes?.[slideIndex];
+  const notes = Array.isArray(configNotes) ? configNotes[sub ? sub.index - 1 : 0] : configNotes;
+  return notes || undefined;
+};
+
+/**
+ * Build the context passed to hooks
+ */
+function createHookContext(slideIndex: number, sub: SubState | undefined, config: ExportConfig): HookContext {
+  return { slide: slideIndex + 1, slideIndex, sub, config };
+}
+
+/**
+ * Check if a quality check is enabled (all are by default)
+ */
+function isQualityCheckEnabled(config: ExportConfig, check: QualityIssue['check']): boolean {
+  return config.quality?.enabled !== false && config.quality?.checks?.[check] !== false;
+}
+
+// Failed requests per page, drained after each slide (see trackFailedRequests)
+const FAILED_REQUESTS = new WeakMap<Page, string[]>();
+
+/**
+ * Record failed network requests of a page
+ * 
+ * For AI: Registered before the presentation loads, so broken assets of the
+ * initial load are reported too (for the first slide the page exports).
+ * The favicon is ignored - dev servers often don't have one.
+ */
+function trackFailedRequests(page: Page): void {
+  const failed: string[] = [];
+  FAILED_REQUESTS.set(page, failed);
+
+  page.on('requestfailed', (request) => {
+    if (request.url().startsWith('data:')) return;
+    failed.push(`${request.url()} (${request.failure()?.errorText || 'failed'})`);
+  });
+  page.on('response', (response) => {
+    if (response.status() >= 400 && !response.url().endsWith('/favicon.ico')) {
+      failed.push(`${response.url()} (HTTP ${response.status()})`);
+    }
+  });
+}
+
+/**
+ * Shorten long URLs (base64 images) for warnings
+ */
+function shortenUrl(url: string): string {
+  return url.length > 100 ? `${url.slice(0, 60)}… (${url.length} chars)` : url;
+}
+
+/**
+ * Run quality checks on a captured frame and the live DOM
+ * 
+ * For AI: Runs right after the capture, while the DOM is still in the captured
+ * state. The blank check measures the luminance standard deviation of a
+ * downscaled copy of the screenshot on a canvas (no image library needed) -
+ * an empty slide or a still-invisible animation gives a near-uniform image.
+ * The canvas work runs in a blank page (getImagePage), out of reach of the deck's CSP.
+ * Duplicate and failed-request checks need more than one state and run later.
+ */
+const checkStateQuality = async (page: Page, screenshot: Buffer | null, config: ExportConfig): Promise<QualityIssue[]> => {
+  const issues: QualityIssue[] = [];
+
+  if (screenshot && isQualityCheckEnabled(config, 'blank')) {
+    const imagePage = await getImagePage(page.browser());
+    const deviation = await imagePage.evaluate(async (src) => {
+      const image = new Image();
+      await new Promise((resolve, reject) => {
+        image.onload = resolve;
+        image.onerror = reject;
+        image.src = src;
+      });
+      const canvas = document.createElement('canvas');
+      canvas.width = 160;
+      canvas.height = Math.max(1, Math.round(160 * image.naturalHeight / image.naturalWidth));
+      const context = canvas.getContext('2d')!;
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+      let sum = 0;
+      let sumSquares = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        const luminance = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+        sum += luminance;
+        sumSquares += luminance * luminance;
+      }
+      const count = data.length / 4;
+      return Math.sqrt(Math.max(0, sumSquares / count - (sum / count) ** 2));
+    }, `data:image/png;base64,${screenshot.toString('base64')}`);
+
+    if (deviation < (config.quality?.uniformThreshold ?? 2)) {
+      issues.push({ check: 'blank', message: `frame is almost uniform (std dev ${deviation.toFixed(2)}) - animation not finished?` });
+    }
+  }
+
+  const dom = await page.evaluate((selector) => {
+    const brokenImages = Array.from(document.images)
+      .filter((image) => image.complete && image.naturalWidth === 0 && (image.currentSrc || image.src))
+      .map((image) => image.currentSrc || image.src);
+
+    const root = document.querySelector(selector);
+    const overflow = root
+      ? { x: root.scrollWidth - root.clientWidth, y: root.scrollHeight - root.clientHeight }
+      : { x: 0, y: 0 };
+    return { brokenImages, overflow };
+  }, config.selectors.mainContent);
+
+  if (isQualityCheckEnabled(config, 'brokenImages')) {
+    dom.brokenImages.forEach((src) => {
+      issues.push({ check: 'brokenImages', message: `broken image: ${shortenUrl(src)}` });
+    });
+  }
+  if (isQualityCheckEnabled(config, 'overflow') && (dom.overflow.x > 1 || dom.overflow.y > 1)) {
+    const directions = [
+      dom.overflow.x > 1 ? `${dom.overflow.x}px horizontally` : '',
+      dom.overflow.y > 1 ? `${dom.overflow.y}px vertically` : '',
+    ].filter(Boolean).join(', ');
+    issues.push({ check: 'overflow', message: `content overflows ${config.selectors.mainContent} by ${directions}` });
+  }
+
+  return issues;
+};
+
+/**
+ * Print quality warnings, write exports/quality-report.json, fail with --strict
+ * 
+ * For AI: Duplicates are found here - adjacent states (in PDF order) with the
+ * same hash. With --strict or quality.strict the export stops before the PDF
+ * is written, like a navigation failure.
+ */
+function reportQuality(states: CapturedState[], config: ExportConfig): void {
+  if (config.quality?.enabled === false) {
+    return;
+  }
+
+  if (isQualityCheckEnabled(config, 'duplicate')) {
+    states.forEach((state, i) => {
+      if (i > 0 && state.hash === states[i - 1].hash) {
+        state.issues.push({ check: 'duplicate', message: `identical to the previous page (${formatStateLabel(states[i - 1])})` });
+      }
+    });
+  }
+
+  const warnings = states.flatMap((state) => state.issues.map((issue) => ({
+    state: formatStateLabel(state),
+    ...issue,
+  })));
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'quality-report.json'), JSON.stringify({ warnings }, null, 2) + '\n');
+
+  console.log(`\n🩺 Quality check: ${warnings.length === 0 ? 'no warnings' : `${warnings.length} warning(s)`}`);
+  warnings.forEach((warning) => console.log(`   ⚠️  ${warning.state}: ${warning.message}`));
+
+  if (warnings.length > 0 && (config.quality?.strict || hasCliFlag('strict'))) {
+    throw new ExportError(`${warnings.length} quality warning(s) with --strict - PDF not written`, EXIT_CODES.quality);
+  }
+}
+
+// Cached state - the laid-out pages are stored as a PDF next to the manifest
+interface CacheEntry {
+  fingerprint: string;
+  // Taken before settling (see stableFingerprintForCache) - null if the DOM didn't hold still
+  quickFingerprint?: string | null;
+  title: string;
+  hash: string;
+  issues: QualityIssue[];
+  pdfFile: string;
+  screenshotFile: string | null;
+}
+
+// Manifest of the previous export plus hit/miss counters of this run
+interface ExportCache {
+  dir: string;
+  settingsHash: string;
+  entries: Record<string, CacheEntry>;
+  hits: number;
+  misses: number;
+}
+
+// Bump when the cached page format or fingerprint changes
+const CACHE_FORMAT = 2;
+
+// Settings that don't change how pages look - changing them keeps the cache
+const CACHE_NEUTRAL_SETTINGS = [
+  '$schema', 'devServerUrl', 'server', 'concurrency', 'deepLinkTemplate', 'navigation', 'indicators', 'verification',
+  'discovery', 'metadata', 'outline', 'saveScreenshots', 'compare', 'quality', 'cache', 'recovery', 'formats', 'pptx', 'html', 'slideNotes', 'notes', 'handout', 'stamps', 'variants',
+];
+
+// Cached states re-read their notes, checkpointed states restore them - so notes settings invalidate the checkpoint
+const CHECKPOINT_NEUTRAL_SETTINGS = CACHE_NEUTRAL_SETTINGS.filter((key) => key !== 'slideNotes' && key !== 'notes');
+
+// Asset content hashes of this run, shared by all states (and pages)
+const ASSET_HASHES = new Map<string, Promise<string>>();
+
+/**
+ * Hash the settings that change how pages look (shared by the cache and the checkpoint)
+ */
+function hashRenderSettings(config: ExportConfig, renderMode: RenderMode, neutralSettings: string[] = CACHE_NEUTRAL_SETTINGS): string {
+  const settings = Object.fromEntries(Object.entries(config)
+    .filter(([key]) => !neutralSettings.includes(key))
+    .map(([key, value]) => key === 'hooks'
+      ? [key, Object.entries(value as ExportHooks).map(([name, hook]) => `${name}:${hook}`)]
+      : [key, value]));
+  return createHash('sha1')
+    .update(JSON.stringify({ format: CACHE_FORMAT, renderMode, settings }))
+    .digest('hex');
+}
+
+/**
+ * Load the export cache manifest (exports/cache/<pdf name>/manifest.json)
+ * 
+ * For AI: The manifest is only used if it was written with the same render
+ * settings - a settings hash covers everything that changes how a page looks
+ * (viewport, format, layout, render mode, hooks...). With --force the old
+ * entries are ignored, but the cache is still rewritten for the next run.
+ */
+function loadExportCache(config: ExportConfig, renderMode: RenderMode): ExportCache | null {
+  if (config.cache?.enabled === false) {
+    return null;
+  }
+
+  const settingsHash = hashRenderSettings(config, renderMode);
+  const dir = path.join(OUTPUT_DIR, 'cache', resolveOutputName(config));
+  const cache: ExportCache = { dir, settingsHash, entries: {}, hits: 0, misses: 0 };
+  const manifestPath = path.join(dir, 'manifest.json');
+
+  if (!hasCliFlag('force') && fs.existsSync(manifestPath)) {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      if (manifest.settingsHash === settingsHash) {
+        cache.entries = manifest.entries || {};
+      } else {
+        console.log('♻️  Export settings changed - capturing all states again\n');
+      }
+    } catch {
+      // Broken manifest - start over
+    }
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  return cache;
+}
+
+/**
+ * Write the cache manifest for the next run
+ */
+function saveExportCache(cache: ExportCache): void {
+  const manifest = { settingsHash: cache.settingsHash, entries: cache.entries };
+  fs.writeFileSync(path.join(cache.dir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+// Slides completed so far (exports/checkpoint/<pdf name>/) - lets --resume skip them
+interface Checkpoint {
+  dir: string;
+  settingsHash: string;
+  slides: Record<string, CheckpointState[]>;
+}
+
+// Captured state without its pages - they are stored next to checkpoint.json
+type CheckpointState = Omit<CapturedState, 'pdfDoc' | 'pageIndex' | 'pageCount' | 'cached'> & { pdfFile: string };
+
+/**
+ * Load the checkpoint of an interrupted export (--resume) or start a new one
+ * 
+ * For AI: Every completed slide is written to the checkpoint right away, so
+ * a crash, hang or Ctrl+C loses at most the slides in progress. Without
+ * --resume (or if render or notes settings changed since) the old checkpoint is dropped.
+ * Slides replaced by a placeholder or with a failed navigation check are never
+ * checkpointed - --resume retries them.
+ */
+function loadCheckpoint(config: ExportConfig, renderMode: RenderMode): Checkpoint {
+  const dir = path.join(OUTPUT_DIR, 'checkpoint', resolveOutputName(config));
+  const checkpoint: Checkpoint = { dir, settingsHash: hashRenderSettings(config, renderMode, CHECKPOINT_NEUTRAL_SETTINGS), slides: {} };
+  const checkpointPath = path.join(dir, 'checkpoint.json');
+
+  if (hasCliFlag('resume')) {
+    if (!fs.existsSync(checkpointPath)) {
+      console.log('⏩ No checkpoint found - exporting all slides\n');
+    } else {
+      try {
+        const saved = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8'));
+        if (saved.settingsHash === checkpoint.settingsHash) {
+          checkpoint.slides = saved.slides || {};
+        } else {
+          console.log('⏩ Export settings changed since the checkpoint - exporting all slides\n');
+        }
+      } catch {
+        // Broken checkpoint - start over
+      }
+    }
+  }
+
+  if (Object.keys(checkpoint.slides).length === 0) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  fs.mkdirSync(dir, { recursive: true });
+  return checkpoint;
+}
+
+/**
+ * Add a completed slide to the checkpoint
+ */
+const saveCheckpointSlide = async (checkpoint: Checkpoint, slideIndex: number, states: CapturedState[]): Promise<void> => {
+  checkpoint.slides[slideIndex] = await Promise.all(states.map(async ({ pdfDoc, pageIndex, pageCount, cached, ...state }, i) => {
+    const pdfFile = `slide-${slideIndex + 1}-${i}.pdf`;
+    fs.writeFileSync(path.join(checkpoint.dir, pdfFile), await pdfDoc.save());
+    return { ...state, pdfFile };
+  }));
+
+  const saved = { settingsHash: checkpoint.settingsHash, slides: checkpoint.slides };
+  fs.writeFileSync(path.join(checkpoint.dir, 'checkpoint.json'), JSON.stringify(saved, null, 2) + '\n');
+};
+
+/**
+ * Restore the states of a checkpointed slide (null if it has to be captured)
+ */
+const restoreCheckpointSlide = async (checkpoint: Checkpoint, slideIndex: number): Promise<CapturedState[] | null> => {
+  const saved = checkpoint.slides[slideIndex];
+  if (!saved) {
+    return null;
+  }
+
+  try {
+    return await Promise.all(saved.map(async ({ pdfFile, ...state }) => {
+      const pdfDoc = await PDFDocument.load(fs.readFileSync(path.join(checkpoint.dir, pdfFile)));
+      return {
+        ...state,
+        pdfDoc,
+        pageIndex: 0,
+        pageCount: pdfDoc.getPageCount(),
+        screenshotPath: state.screenshotPath && fs.existsSync(state.screenshotPath) ? state.screenshotPath : null,
+      };
+    }));
+  } catch {
+    // Missing or broken page - capture the slide again
+    delete checkpoint.slides[slideIndex];
+    return null;
+  }
+};
+
+/**
+ * Remove the checkpoint after a complete export
+ */
+function clearCheckpoint(checkpoint: Checkpoint): void {
+  fs.rmSync(checkpoint.dir, { recursive: true, force: true });
+  if (fs.readdirSync(path.dirname(checkpoint.dir)).length === 0) {
+    fs.rmdirSync(path.dirname(checkpoint.dir));
+  }
+}
+
+/**
+ * Fingerprint the rendered state for the export cache
+ * 
+ * For AI: Stricter than fingerprintState - besides tags, classes, attributes
+ * and text of the whole document it covers inline <style> text, canvas pixels
+ * and the content of referenced assets (images, CSS backgrounds, stylesheets,
+ * video posters). Assets are downloaded and hashed in Node (once per URL and
+ * run), so an image replaced under the same URL still invalidates the state.
+ * Inline style attributes count too - it's taken once the state has settled
+ * (see captureState), so running animations don't get in the way.
+ */
+const fingerprintForCache = async (page: Page): Promise<string> => {
+  const snapshot = await page.evaluate(() => {
+    const parts: string[] = [];
+    const assets = new Set<string>();
+
+    document.querySelectorAll('*').forEach((element) => {
+      parts.push(element.tagName);
+      Array.from(element.attributes).forEach((attribute) => parts.push(`${attribute.name}=${attribute.value}`));
+
+      if (element instanceof HTMLImageElement && element.currentSrc) assets.add(element.currentSrc);
+      if (element instanceof HTMLVideoElement && element.poster) assets.add(element.poster);
+      if (element instanceof HTMLLinkElement && element.rel === 'stylesheet') assets.add(element.href);
+      if (element instanceof HTMLStyleElement) parts.push(element.textContent || '');
+      if (element instanceof HTMLCanvasElement) {
+        try {
+          parts.push(element.toDataURL());
+        } catch {
+          parts.push('tainted-canvas');
+        }
+      }
+
+      const background = getComputedStyle(element).backgroundImage;
+      (background.match(/url\(["']?[^"')]+["']?\)/g) || []).forEach((match) => {
+        assets.add(new URL(match.replace(/^url\(["']?|["']?\)$/g, ''), document.baseURI).href);
+      });
+    });
+    parts.push(document.body ? document.body.innerText : '');
+
+    return { signature: parts.join('|'), assets: Array.from(assets).filter((url) => !url.startsWith('data:')).sort() };
+  });
+
+  const assetHashes = await Promise.all(snapshot.assets.map((url) => {
+    if (!ASSET_HASHES.has(url)) {
+      ASSET_HASHES.set(url, fetch(url)
+        .then(async (response) => createHash('sha1').update(Buffer.from(await response.arrayBuffer())).digest('hex'))
+        .catch(() => 'unavailable'));
+    }
+    return ASSET_HASHES.get(url)!;
+  }));
+
+  return createHash('sha1')
+    .update(snapshot.signature)
+    .update(snapshot.assets.map((url, i) => `${url}=${assetHashes[i]}`).join('|'))
+    .digest('hex');
+};
+
+/**
+ * Cache fingerprint of the state before settling - the cheap check
+ * 
+ * For AI: Takes fingerprintForCache snapshots 100ms apart until two match
+ * (at most maxWait). A DOM that holds still and matches the previous run's
+ * quick fingerprint is reused without the full settle wait. Returns null if
+ * the DOM kept changing - the caller then settles and compares the full one.
+ */
+const stableFingerprintForCache = async (page: Page, maxWait: number = 1000): Promise<string | null> => {
+  const deadline = Date.now() + maxWait;
+  let previous = await fingerprintForCache(page);
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const current = await fingerprintForCache(page);
+    if (current === previous) {
+      return current;
+    }
+    previous = current;
+  }
+  return null;
+};
+
+/**
+ * Capture current slide state as laid-out PDF page(s)
+ * 
+ * For AI: Both render modes share navigation, UI hiding and waiting logic -
+ * only the capture step differs. Screenshot mode keeps the PNG on disk,
+ * vector mode lays out the page produced by page.pdf() the same way.
+ * Returns a CapturedState record - its pages are merged later (in slide order,
+ * even when slides are captured in parallel) and it feeds the outline and page labels.
+ * With the export cache, a state whose fingerprint matches the previous run
+ * reuses its pages. The quick fingerprint (stable DOM before settling) is
+ * checked first and skips hiding UI, waiting and hooks on a hit. Otherwise
+ * the state settles and the full fingerprint decides - anything that
+ * settles late still counts, and a hit skips only the capture itself.
+ */
+const captureState = async (
+  page: Page,
+  slideIndex: number,
+  sub: SubState | undefined,
+  filename: string,
+  config: ExportConfig,
+  renderMode: RenderMode,
+  cache: ExportCache | null
+): Promise<CapturedState> => {
+  const cacheKey = filename.replace(/\.png$/, '');
+  const cached = cache?.entries[cacheKey];
+  const cachedScreenshot = cached?.screenshotFile ? path.join(resolveVariantDir(SCREENSHOTS_DIR, config), cached.screenshotFile) : null;
+  const screenshotAvailable = renderMode === 'vector' || config.saveScreenshots === false
+    || (cachedScreenshot !== null && fs.existsSync(cachedScreenshot));
+  const reusable = !!cache && !!cached && screenshotAvailable && fs.existsSync(path.join(cache.dir, cached.pdfFile));
+
+  // Cheap check first - an unchanged DOM that holds still skips settling altogether
+  const quickFingerprint = cache ? await stableFingerprintForCache(page) : null;
+  const quickHit = reusable && quickFingerprint !== null && cached?.quickFingerprint === quickFingerprint;
+
+  // Hide UI and let the state settle before fingerprinting/capturing
+  const context = createHookContext(slideIndex, sub, config);
+  if (!quickHit) {
+    await hideUIElements(page, config);
+    await settleState(page, context, config);
+  }
+
+  const fingerprint = cache && !quickHit ? await fingerprintForCache(page) : null;
+  if (cache && cached && (quickHit || (reusable && cached.fingerprint === fingerprint))) {
+    cache.hits++;
+    // Settled hits learn this run's quick fingerprint, so the next run can skip settling
+    cached.quickFingerprint = quickFingerprint;
+    const pdfDoc = await PDFDocument.load(fs.readFileSync(path.join(cache.dir, cached.pdfFile)));
+    return {
+      slideIndex,
+      sub,
+      title: cached.title,
+      pdfDoc,
+      pageIndex: 0,
+      pageCount: pdfDoc.getPageCount(),
+      screenshotPath: renderMode === 'screenshot' && config.saveScreenshots !== false ? cachedScreenshot : null,
+      hash: cached.hash,
+      issues: [...cached.issues],
+      cached: true,
+      notes: await getSlideNotes(page, slideIndex, sub, config),
+    };
+  }
+
+  let screenshotPath: string | null = null;
+  let pdfDoc: PDFDocument;
+  let hash: string;
+  let issues: QualityIssue[];
+
+  // Links/text are collected right after the capture - the DOM is in the captured state.
+  // Vector pages already contain real text, so only screenshots get a text layer.
+  if (renderMode === 'vector') {
+    const pdfBytes = await takeVectorPage(page, config);
+    const overlay = config.links !== false
+      ? await collectPageOverlay(page, { links: true, text: false })
+      : undefined;
+    issues = await checkStateQuality(page, null, config);
+    hash = await fingerprintState(page, config);
+    pdfDoc = await convertVectorToPDF(pdfBytes, config, overlay);
+  } else {
+    const captured = await takeScreenshot(page);
+    const screenshot = config.hooks?.transformScreenshot
+      ? await config.hooks.transformScreenshot(captured, context)
+      : captured;
+
+    // JPEG/WebP are encoded from the PNG - quality checks and the hash still use the lossless capture
+    const encoding = resolveImageEncoding(config, slideIndex);
+    const imagePage = await getImagePage(page.browser());
+    const image = encoding.format === 'png' ? screenshot : await encodeImage(imagePage, screenshot, encoding.format, encoding.quality);
+    if (config.saveScreenshots !== false) {
+      screenshotPath = path.join(resolveVariantDir(SCREENSHOTS_DIR, config), filename.replace(/\.png$/, IMAGE_EXTENSIONS[encoding.format]));
+      fs.writeFileSync(screenshotPath, image);
+    }
+    const overlay = config.links !== false || config.textLayer !== false
+      ? await collectPageOverlay(page, { links: config.links !== false, text: config.textLayer !== false })
+      : undefined;
+    issues = await checkStateQuality(page, screenshot, config);
+    hash = createHash('sha1').update(screenshot).digest('hex');
+    pdfDoc = await convertImageToPDF(
+      encoding.format === 'webp' ? await encodeImage(imagePage, screenshot, 'jpeg', encoding.quality) : image,
+      config,
+      overlay
+    );
+  }
+
+  const state: CapturedState = {
+    slideIndex,
+    sub,
+    title: await getSlideTitle(page, slideIndex, config),
+    pdfDoc,
+    pageIndex: 0,
+    pageCount: pdfDoc.getPageCount(),
+    screenshotPath,
+    hash,
+    issues,
+    notes: await getSlideNotes(page, slideIndex, sub, config),
+  };
+
+  if (cache && fingerprint) {
+    cache.misses++;
+    fs.writeFileSync(path.join(cache.dir, `${cacheKey}.pdf`), await pdfDoc.save());
+    cache.entries[cacheKey] = {
+      fingerprint,
+      quickFingerprint,
+      title: state.title,
+      hash,
+      // Copy - later checks (duplicates, failed requests) add to the state's list
+      issues: [...issues],
+      pdfFile: `${cacheKey}.pdf`,
+      screenshotFile: screenshotPath ? path.basename(screenshotPath) : null,
+    };
+  }
+
+  return state;
+};
+
+/**
+ * Make sure the page shows the intended slide
+ * 
+ * For AI: If a transition swallows a key, every later slide would be off by one.
+ * After navigating we read the slide indicator and, on mismatch:
+ * 1. navigate again (navigateToSlide is relative to the current slide) - retries times
+ * 2. reload the presentation (known anchor) and navigate from there
+ * Healed and failed slides end up in the report. A missing indicator (null)
+ * can't be verified and counts as OK - same as before verification existed.
+ */
+const ensureOnSlide = async (
+  page: Page,
+  slideIndex: number,
+  config: ExportConfig,
+  report: NavigationReport
+): Promise<boolean> => {
+  if (config.verification?.enabled === false) {
+    return true;
+  }
+
+  const retries = config.verification?.retries ?? 2;
+  const indicator = getSlideIndicator(config);
+  let current = await readIndicator(page, indicator);
+  let attempts = 0;
+
+  while (current !== null && current !== slideIndex && attempts <= retries) {
+    attempts++;
+    if (attempts > retries) {
+      await loadPresentation(page, page.url(), config);
+    }
+    await navigateToSlide(page, slideIndex, config);
+    current = await readIndicator(page, indicator);
+  }
+
+  if (current !== null && current !== slideIndex) {
+    report.entries.push({
+      slideIndex,
+      status: 'failed',
+      message: `expected slide ${slideIndex + 1}, indicator shows ${current + 1} (after ${attempts} retries and a reload)`,
+    });
+    return false;
+  }
+
+  if (attempts > 0) {
+    report.entries.push({
+      slideIndex,
+      status: 'healed',
+      message: attempts > retries ? 'reached after reloading the presentation' : `reached after ${attempts} ${attempts === 1 ? 'retry' : 'retries'}`,
+    });
+  }
+  report.verified++;
+  return true;
+};
+
+/**
+ * Replay sub-slide navigation from a fresh page load
+ * 
+ * For AI: Sub-slide state lives in React component state, so a reload is the
+ * only reliable anchor - after it, the slide starts at its first sub-slide.
+ */
+const replaySubSlide = async (
+  page: Page,
+  slideIndex: number,
+  startIndex: number,
+  subIndex: number,
+  config: ExportConfig
+): Promise<void> => {
+  await loadPresentation(page, page.url(), config);
+  await navigateToSlide(page, slideIndex, config);
+  for (let sub = startIndex + 1; sub <= subIndex; sub++) {
+    await navigateSubSlide(page, 'down', config, { slideIndex, sub });
+  }
+};
+
+/**
+ * Make sure the page shows the intended sub-slide/step
+ * 
+ * For AI: With indicators.subSlide (e.g. a "3 / 9" counter) we compare the
+ * number and step down/up by the difference. Without it we can only check
+ * that the move changed something: the fingerprint must differ from the
+ * previous state (unchanged means the key was swallowed, so we press again) -
+ * this check includes inline styles and transforms (see fingerprintState).
+ * expectFingerprint is used for the reset, where we expect to be back at the
+ * first state - a mismatch moves up for sub-slides and down (cycling) for
+ * steps. It leaves styles out, since the capture itself hides UI elements.
+ * Last resort is replaySubSlide from a fresh page load.
+ */
+const ensureOnSubSlide = async (
+  page: Page,
+  slideIndex: number,
+  startIndex: number,
+  subIndex: number,
+  sub: SubState,
+  check: { previousFingerprint?: string | null; expectFingerprint?: string | null },
+  config: ExportConfig,
+  report: NavigationReport
+): Promise<boolean> => {
+  const indicator = config.indicators?.subSlide;
+  const needsFingerprint = !indicator && (check.previousFingerprint || check.expectFingerprint);
+  if (config.verification?.enabled === false) {
+    return true;
+  }
+
+  const retries = config.verification?.retries ?? 2;
+  const expected = subIndex - startIndex;
+
+  // Returns how many steps down are still needed (0 = on target, null = unknown)
+  const measure = async (): Promise<{ offset: number | null }> => {
+    const fingerprint = indicator || !needsFingerprint
+      ? null
+      : await fingerprintState(page, config, { styles: !check.expectFingerprint });
+    if (indicator) {
+      const current = await readIndicator(page, indicator);
+      return { offset: current === null ? null : expected - current };
+    }
+    if (check.expectFingerprint) {
+      // Sub-slides were reset by going up, so keep going up - only steps cycle forward
+      const towardsStart = sub.type === 'step' ? 1 : -1;
+      return { offset: fingerprint === check.expectFingerprint ? 0 : towardsStart };
+    }
+    if (check.previousFingerprint) {
+      return { offset: fingerprint === check.previousFingerprint ? 1 : 0 };
+    }
+    return { offset: null };
+  };
+
+  let result = await measure();
+  let attempts = 0;
+
+  while (result.offset !== null && result.offset !== 0 && attempts <= retries) {
+    attempts++;
+    if (attempts > retries) {
+      await replaySubSlide(page, slideIndex, startIndex, subIndex, config);
+    } else {
+      const direction = result.offset > 0 ? 'down' : 'up';
+      for (let i = 0; i < Math.abs(result.offset); i++) {
+        await navigateSubSlide(page, direction, config, { slideIndex, sub: subIndex });
+      }
+    }
+    result = await measure();
+  }
+
+  if (result.offset !== null && result.offset !== 0) {
+    report.entries.push({
+      slideIndex,
+      sub,
+      status: 'failed',
+      message: indicator
+        ? `indicator is ${result.offset > 0 ? 'behind' : 'ahead'} by ${Math.abs(result.offset)} (after ${attempts} retries and a reload)`
+        : `sub-slide didn't change as expected (after ${attempts} retries and a reload)`,
+    });
+    return false;
+  }
+
+  if (attempts > 0) {
+    report.entries.push({
+      slideIndex,
+      sub,
+      status: 'healed',
+      message: attempts > retries ? 'reached after reloading the presentation' : `reached after ${attempts} ${attempts === 1 ? 'retry' : 'retries'}`,
+    });
+  }
+  report.verified++;
+  return true;
+};
+
+/**
+ * Export one main slide with all its sub-slides/steps
+ * 
+ * For AI: Navigates to the slide, captures every sub-slide/step (from
+ * slidesWithSubSlides) and resets the sub-slide state afterwards, so the
+ * next slide starts clean. Sub-slides are stateful, so one slide is always
+ * exported on one page - parallelism happens per main slide.
+ * Every move is verified (see ensureOnSlide/ensureOnSubSlide) - states that
+ * can't be reached are skipped and reported instead of shifting the PDF.
+ */
+const exportSlide = async (
+  page: Page,
+  slideIndex: number,
+  config: ExportConfig,
+  renderMode: RenderMode,
+  report: NavigationReport,
+  cache: ExportCache | null
+): Promise<CapturedState[]> => {
+  const states: CapturedState[] = [];
+  console.log(`📄 Exporting slide ${slideIndex + 1}/${config.totalSlides}...`);
+
+  // Navigate to slide
+  await config.hooks?.beforeSlide?.(page, createHookContext(slideIndex, undefined, config));
+  await navigateToSlide(page, slideIndex, config);
+  if (!(await ensureOnSlide(page, slideIndex, config, report))) {
+    console.error(`   ❌ Could not reach slide ${slideIndex + 1}, skipping`);
+    return states;
+  }
+
+  // Check if this slide has sub-slides
+  const subSlideConfig = config.slidesWithSubSlides[slideIndex.toString()];
+
+  if (subSlideConfig) {
+    const { type, max } = subSlideConfig;
+    const startIndex = type === 'subSlide' ? 0 : 1;
+    const endIndex = type === 'subSlide' ? max : max;
+
+    console.log(`   └─ Slide ${slideIndex + 1}: found ${endIndex - startIndex + 1} ${type === 'subSlide' ? 'sub-slides' : 'steps'}`);
+
+    let firstFingerprint: string | null = null;
+    let previousFingerprint: string | null = null;
+
+    // Export each sub-slide
+    for (let subIndex = startIndex; subIndex <= endIndex; subIndex++) {
+      // Navigate to specific sub-slide if not at start
+      if (subIndex > startIndex) {
+        await navigateSubSlide(page, 'down', config, { slideIndex, sub: subIndex });
+      }
+
+      const displayIndex = type === 'step' ? subIndex : subIndex + 1;
+      const sub: SubState = { type, index: displayIndex };
+
+      // Verify before capturing - later sub-slides would be shifted, so stop on failure
+      const verified = await ensureOnSubSlide(
+        page, slideIndex, startIndex, subIndex, sub,
+        { previousFingerprint: subIndex > startIndex ? previousFingerprint : null },
+        config, report
+      );
+      if (!verified) {
+        console.error(`      ❌ Could not reach ${formatStateLabel({ slideIndex, sub })}, skipping the rest of this slide`);
+        break;
+      }
+      const fingerprinted = !config.indicators?.subSlide && config.verification?.enabled !== false;
+      if (fingerprinted && firstFingerprint === null) {
+        firstFingerprint = await fingerprintState(page, config);
+      }
+      await config.hooks?.afterNavigate?.(page, createHookContext(slideIndex, sub, config));
+
+      // Hide UI and capture
+      const filename = `slide-${slideIndex + 1}-${type}-${displayIndex}.png`;
+      const state = await captureState(page, slideIndex, sub, filename, config, renderMode, cache);
+      states.push(state);
+      // Taken after the capture - hiding UI changes inline styles, which would look like a move
+      if (fingerprinted) {
+        previousFingerprint = await fingerprintState(page, config, { styles: true });
+      }
+
+      console.log(`      ✓ Exported slide ${slideIndex + 1} ${type} ${displayIndex}${state.cached ? ' (cached)' : ''}`);
+    }
+
+    // Reset to first sub-slide for next main slide
+    if (isAbsoluteStrategy(resolveNavigationStrategy(config, 'subSlide', slideIndex))) {
+      await navigateSubSlide(page, 'up', config, { slideIndex, sub: startIndex });
+    } else if (type === 'subSlide') {
+      for (let sub = endIndex - 1; sub >= startIndex; sub--) {
+        await navigateSubSlide(page, 'up', config, { slideIndex, sub });
+      }
+    } else {
+      // For steps, cycle back to step 1
+      await navigateSubSlide(page, 'down', config, { slideIndex, sub: startIndex });
+    }
+
+    // The reset used to be a guess - check we're back at the first state
+    const firstSub: SubState = { type, index: type === 'step' ? startIndex : startIndex + 1 };
+    await ensureOnSubSlide(page, slideIndex, startIndex, startIndex, firstSub, { expectFingerprint: firstFingerprint }, config, report);
+  } else {
+    // No sub-slides, export directly
+    await config.hooks?.afterNavigate?.(page, createHookContext(slideIndex, undefined, config));
+    const filename = `slide-${slideIndex + 1}.png`;
+    const state = await captureState(page, slideIndex, undefined, filename, config, renderMode, cache);
+    states.push(state);
+    console.log(`   ✓ Exported slide ${slideIndex + 1}${state.cached ? ' (cached)' : ''}`);
+  }
+
+  return states;
+};
+
+/**
+ * Open the presentation in a new page
+ * 
+ * For AI: Used for the main page and for every page of the parallel pool.
+ * Pool pages live in their own browser context, so presentations that keep
+ * the current slide in localStorage/sessionStorage don't affect each other.
+ */
+const openPresentationPage = async (
+  target: Browser | BrowserContext,
+  url: string,
+  config: ExportConfig,
+  renderMode: RenderMode
+): Promise<Page> => {
+  const page = await target.newPage();
+  trackFailedRequests(page);
+  
+  // Set longer timeout for page operations (handles slow animations)
+  page.setDefaultTimeout(60000);
+  page.setDefaultNavigationTimeout(60000);
+  
+  // Set viewport from config
+  await page.setViewport({
+    width: config.viewport.width,
+    height: config.viewport.height,
+    deviceScaleFactor: config.viewport.deviceScaleFactor,
+  });
+
+  // Vector mode prints the page - keep screen styles so it matches the presentation
+  if (renderMode === 'vector') {
+    await page.emulateMediaType('screen');
+  }
+
+  // Variant matrix - media features, locale and flags are in place before the app loads
+  const variant = config.activeVariant;
+  if (variant) {
+    const features: Array<{ name: string; value: string }> = [];
+    if (variant.colorScheme) features.push({ name: 'prefers-color-scheme', value: variant.colorScheme });
+    if (variant.reducedMotion) features.push({ name: 'prefers-reduced-motion', value: variant.reducedMotion });
+    await page.emulateMediaFeatures(features);
+
+    if (variant.locale) {
+      await page.setExtraHTTPHeaders({ 'Accept-Language': variant.locale });
+      const client = await page.createCDPSession();
+      await client.send('Emulation.setLocaleOverride', { locale: variant.locale });
+    }
+
+    // Separate scripts - one failing can't disable the other. No getters here:
+    // tsx would name them (__name), which doesn't exist in the page.
+    if (variant.flags?.localStorage) {
+      await page.evaluateOnNewDocument((entries) => {
+        try {
+          Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, value));
+        } catch {
+          // No storage on about:blank
+        }
+      }, variant.flags.localStorage);
+    }
+    if (variant.locale) {
+      await page.evaluateOnNewDocument((locale) => {
+        Object.defineProperty(navigator, 'language', { value: locale, configurable: true });
+        Object.defineProperty(navigator, 'languages', { value: Object.freeze([locale]), configurable: true });
+      }, variant.locale);
+    }
+  }
+
+  await loadPresentation(page, url, config);
+  return page;
+};
+
+/**
+ * Load the presentation URL and wait for React to render
+ */
+const loadPresentation = async (page: Page, url: string, config: ExportConfig): Promise<void> => {
+  await page.goto(url, {
+    waitUntil: 'networkidle0',
+    timeout: 30000,
+  });
+
+  // Wait for React to load
+  try {
+    await page.waitForSelector(config.selectors.progressBar, { timeout: 10000 });
+  } catch (e) {
+    console.warn('⚠️  Progress bar not found, continuing anyway...');
+  }
+  await waitForAnimation(page, config, 1000);
+};
+
+/**
+ * Resolve concurrency from CLI (--concurrency=4) or config
+ */
+function resolveConcurrency(config: ExportConfig, slideCount: number): number {
+  const value = getCliOption('concurrency') ?? config.concurrency ?? 1;
+  const concurrency = typeof value === 'number' ? value : parseInt(value);
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`❌ Invalid concurrency: ${value}`);
+    console.error('   Expected a whole number >= 1');
+    process.exit(EXIT_CODES.usage);
+  }
+
+  return Math.max(Math.min(concurrency, slideCount), 1);
+}
+
+// Browser shared by all pages - replaced when it crashes (see ensureBrowser)
+interface BrowserSession {
+  browser: Browser;
+  launch: () => Promise<Browser>;
+  relaunching?: Promise<void>;
+}
+
+/**
+ * Reject if a promise doesn't settle in time
+ * 
+ * For AI: The original promise keeps running - callers discard the page it
+ * works on, which makes it fail soon after (its rejection is swallowed here).
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  promise.catch(() => {});
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Relaunch the browser if it crashed or was killed
+ * 
+ * For AI: All pages die with the browser, so several workers notice at once -
+ * the first one relaunches and the others wait for the same launch.
+ */
+const ensureBrowser = async (session: BrowserSession): Promise<void> => {
+  if (session.browser.connected && !session.browser.process()?.killed) {
+    return;
+  }
+
+  if (!session.relaunching) {
+    console.warn('   🔄 Browser is gone - relaunching...');
+    session.relaunching = session.launch()
+      .then((browser) => {
+        session.browser = browser;
+      })
+      .finally(() => {
+        session.relaunching = undefined;
+      });
+  }
+  await session.relaunching;
+};
+
+/**
+ * Close a page after a failed attempt (killing the browser if it doesn't respond)
+ */
+const discardPage = async (page: Page, session: BrowserSession): Promise<void> => {
+  if (page.isClosed()) {
+    return;
+  }
+
+  try {
+    await withTimeout(page.close(), 10000, 'Page did not close');
+  } catch {
+    if (session.browser.connected) {
+      console.warn('   ⚠️  Browser is not responding - restarting it');
+      session.browser.process()?.kill('SIGKILL');
+    }
+  }
+};
+
+/**
+ * Create a placeholder page for a slide that failed after all retries
+ * 
+ * For AI: Keeps page numbers and the outline in line with the deck. The
+ * placeholder isn't checkpointed, so --resume captures the slide again.
+ */
+const createPlaceholderState = async (slideIndex: number, message: string, config: ExportConfig): Promise<CapturedState> => {
+  const pdfDoc = await PDFDocument.create();
+  const [width, height] = resolvePageSize(config) ?? [config.viewport.width, config.viewport.height];
+  const pdfPage = pdfDoc.addPage([width, height]);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const charset = new Set(font.getCharacterSet());
+  const size = Math.max(width / 40, 10);
+
+  pdfPage.drawRectangle({ x: 0, y: 0, width, height, color: rgb(0.95, 0.95, 0.95) });
+  pdfPage.drawText(`Slide ${slideIndex + 1} could not be exported`, {
+    x: width * 0.1,
+    y: height / 2,
+    size: size * 1.5,
+    font,
+    color: rgb(0.3, 0.3, 0.3),
+  });
+  pdfPage.drawText(toEncodableText(message.split('\n')[0].slice(0, 300), charset), {
+    x: width * 0.1,
+    y: height / 2 - size * 2.5,
+    size,
+    font,
+    color: rgb(0.5, 0.5, 0.5),
+    maxWidth: width * 0.8,
+    lineHeight: size * 1.3,
+  });
+
+  return {
+    slideIndex,
+    title: `${config.slideTitles?.[slideIndex] || `Slide ${slideIndex + 1}`} (failed)`,
+    pdfDoc,
+    pageIndex: 0,
+    pageCount: 1,
+    screenshotPath: null,
+    hash: `placeholder-${slideIndex}`,
+    issues: [],
+    placeholder: true,
+  };
+};
+
+/**
+ * Capture all slides with a pool of pages
+ * 
+ * For AI: Each page takes the next slide from a shared queue (ascending order),
+ * so a page mostly moves forward and only replays the gap to its next slide.
+ * With deepLinkTemplate ("{url}#/slide/{slide}", {slide} is 1-based, {index} 0-based)
+ * a page jumps directly instead of pressing ArrowRight through the gap -
+ * navigateToSlide then only corrects if the deep link didn't land exactly.
+ * Results are stored by slide index, so the merged PDF order is deterministic
+ * regardless of which page finishes first. slideIndices is the --slides
+ * selection (all slides by default).
+ * A slide that throws or exceeds recovery.slideTimeout (per state) is retried with
+ * exponential backoff on a fresh page (relaunching the browser if it crashed) -
+ * the page re-navigates to the failed slide like any other. After the last
+ * retry a placeholder page takes its place. Completed slides go to the
+ * checkpoint (unless a navigation check failed on them); slides already in it
+ * (--resume) are restored instead of captured.
+ */
+const captureSlides = async (
+  session: BrowserSession,
+  mainPage: Page,
+  url: string,
+  config: ExportConfig,
+  renderMode: RenderMode,
+  slideIndices: number[],
+  concurrency: number,
+  report: NavigationReport,
+  cache: ExportCache | null,
+  checkpoint: Checkpoint
+): Promise<CapturedState[]> => {
+  const results: CapturedState[][] = [];
+  const retries = config.recovery?.retries ?? 2;
+  const backoff = config.recovery?.backoff ?? 2000;
+  const slideTimeout = config.recovery?.slideTimeout ?? 120000;
+
+  const pending: number[] = [];
+  for (const slideIndex of slideIndices) {
+    const restored = await restoreCheckpointSlide(checkpoint, slideIndex);
+    if (restored) {
+      results[slideIndex] = restored;
+    } else {
+      pending.push(slideIndex);
+    }
+  }
+  if (pending.length < slideIndices.length) {
+    console.log(`⏩ Resuming: ${slideIndices.length - pending.length} slide(s) restored from the checkpoint, ${pending.length} left\n`);
+  }
+  let nextSlide = 0;
+
+  const contexts: BrowserContext[] = [];
+  const openPoolPage = async (): Promise<Page> => {
+    const context = await session.browser.createBrowserContext();
+    contexts.push(context);
+    return openPresentationPage(context, url, config, renderMode);
+  };
+
+  const runWorker = async (initialPage: Page): Promise<void> => {
+    let page: Page | null = initialPage;
+
+    while (nextSlide < pending.length) {
+      const slideIndex = pending[nextSlide++];
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          page = page ?? await openPoolPage();
+
+          if (config.deepLinkTemplate) {
+            const currentSlide = await getCurrentSlideIndex(page, config);
+            if (slideIndex !== currentSlide && slideIndex !== currentSlide + 1) {
+              const deepLink = fillUrlTemplate(config.deepLinkTemplate, url, {
+                slide: slideIndex + 1,
+                index: slideIndex,
+              });
+              await loadPresentation(page, deepLink, config);
+            }
+          }
+
+          // Long click-through slides get time for every state, not one budget for all
+          const subSlides = config.slidesWithSubSlides[slideIndex.toString()];
+          const stateCount = !subSlides ? 1 : subSlides.type === 'subSlide' ? subSlides.max + 1 : subSlides.max;
+          const timeout = slideTimeout * stateCount;
+          results[slideIndex] = await withTimeout(
+            exportSlide(page, slideIndex, config, renderMode, report, cache),
+            timeout,
+            `Slide ${slideIndex + 1} timed out after ${timeout / 1000}s`
+          );
+          break;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (page) {
+            await discardPage(page, session);
+            page = null;
+          }
+
+          if (attempt >= retries) {
+            console.error(`   ❌ Slide ${slideIndex + 1} failed after ${attempt + 1} attempt(s), using a placeholder page: ${message}`);
+            results[slideIndex] = [await createPlaceholderState(slideIndex, message, config)];
+            break;
+          }
+
+          const delay = backoff * 2 ** attempt;
+          console.warn(`   ⚠️  Slide ${slideIndex + 1} failed (${message}) - retrying in ${delay / 1000}s on a fresh page`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          await ensureBrowser(session);
+        }
+      }
+
+      if (!page) {
+        continue;
+      }
+
+      // Requests failed while this slide was exported belong to its first state
+      const failedRequests = FAILED_REQUESTS.get(page)?.splice(0) || [];
+      if (isQualityCheckEnabled(config, 'failedRequests') && results[slideIndex].length > 0) {
+        failedRequests.forEach((request) => {
+          results[slideIndex][0].issues.push({ check: 'failedRequests', message: `request failed: ${shortenUrl(request)}` });
+        });
+      }
+      // A failed navigation check leaves the slide incomplete - --resume has to capture it again
+      const navigationFailed = report.entries.some((entry) => entry.slideIndex === slideIndex && entry.status === 'failed');
+      if (!navigationFailed) {
+        await saveCheckpointSlide(checkpoint, slideIndex, results[slideIndex]);
+      }
+    }
+  };
+
+  try {
+    const pages = [mainPage];
+    for (let i = 1; i < Math.min(concurrency, pending.length); i++) {
+      pages.push(await openPoolPage());
+    }
+
+    await Promise.all(pages.map((page) => runWorker(page)));
+  } finally {
+    await Promise.all(contexts.map((context) => context.close().catch(() => {})));
+  }
+
+  return results.flat();
+};
+
+/**
+ * Print the navigation report and fail on unreachable states
+ * 
+ * For AI: A shuffled PDF is worse than no PDF - if any state couldn't be reached,
+ * we throw (unless verification.onFailure is "warn") before anything is saved.
+ */
+function reportNavigation(report: NavigationReport, config: ExportConfig): void {
+  if (config.verification?.enabled === false) {
+    return;
+  }
+
+  const healed = report.entries.filter((entry) => entry.status === 'healed');
+  const failed = report.entries.filter((entry) => entry.status === 'failed');
+  console.log(`\n🧭 Navigation check: ${report.verified} states verified, ${healed.length} healed, ${failed.length} failed`);
+
+  [...report.entries]
+    .sort((a, b) => a.slideIndex - b.slideIndex || (a.sub?.index ?? 0) - (b.sub?.index ?? 0))
+    .forEach((entry) => {
+      const icon = entry.status === 'failed' ? '❌' : '🩹';
+      console.log(`   ${icon} ${formatStateLabel(entry)}: ${entry.message}`);
+    });
+
+  if (failed.length > 0 && config.verification?.onFailure !== 'warn') {
+    throw new ExportError(
+      `Navigation failed for ${failed.length} state(s) - PDF not written (set verification.onFailure to "warn" to export anyway)`,
+      EXIT_CODES.navigation
+    );
+  }
+}
+
+/**
+ * Merge captured states into the final PDF in slide order
+ */
+const mergeCapturedStates = async (mergedPdf: PDFDocument, states: CapturedState[]): Promise<void> => {
+  for (const state of states) {
+    state.pageIndex = mergedPdf.getPageCount();
+    const pages = await mergedPdf.copyPages(state.pdfDoc, state.pdfDoc.getPageIndices());
+    pages.forEach((pdfPage) => mergedPdf.addPage(pdfPage));
+    state.pageCount = pages.length;
+  }
+};
+
+/**
+ * Format a human readable label for a captured state, e.g. "Slide 15 – step 2"
+ */
+function formatStateLabel(state: Pick<CapturedState, 'slideIndex' | 'sub'>): string {
+  const slideLabel = `Slide ${state.slideIndex + 1}`;
+  if (!state.sub) {
+    return slideLabel;
+  }
+  const subLabel = state.sub.type === 'step' ? 'step' : 'sub-slide';
+  return `${slideLabel} – ${subLabel} ${state.sub.index}`;
+}
+
+/**
+ * Add nested bookmarks (outline) to the PDF
+ * 
+ * For AI: pdf-lib has no outline API, so we build the outline dictionaries
+ * by hand (PDF spec 12.3.3). One top-level entry per main slide pointing at
+ * its first page, with a child entry per sub-slide/step. Children start
+ * collapsed (negative Count) to keep the sidebar short for large decks.
+ */
+function addOutline(pdfDoc: PDFDocument, states: CapturedState[]): void {
+  const context = pdfDoc.context;
+
+  // Group states by main slide (states are in slide order)
+  const groups: CapturedState[][] = [];
+  states.forEach((state) => {
+    const last = groups[groups.length - 1];
+    if (last && last[0].slideIndex === state.slideIndex) {
+      last.push(state);
+    } else {
+      groups.push([state]);
+    }
+  });
+
+  const outlinesRef = context.nextRef();
+
+  const createItem = (title: string, pageIndex: number, parentRef: PDFRef): PDFDict => {
+    return context.obj({
+      Title: PDFHexString.fromText(title),
+      Parent: parentRef,
+      Dest: [pdfDoc.getPage(pageIndex).ref, 'Fit'],
+    });
+  };
+
+  // Link sibling items (Prev/Next) and register them
+  const linkSiblings = (refs: PDFRef[], items: PDFDict[]): void => {
+    items.forEach((item, i) => {
+      if (i > 0) item.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < items.length - 1) item.set(PDFName.of('Next'), refs[i + 1]);
+      context.assign(refs[i], item);
+    });
+  };
+
+  const topRefs = groups.map(() => context.nextRef());
+  const topItems = groups.map((group, i) => {
+    const first = group[0];
+    const item = createItem(`${formatStateLabel({ ...first, sub: undefined })} – ${first.title}`, first.pageIndex, outlinesRef);
+
+    const children = group.filter((state) => state.sub);
+    if (children.length > 0) {
+      const childRefs = children.map(() => context.nextRef());
+      const childItems = children.map((state) => {
+        const childTitle = state.title !== first.title ? `${formatStateLabel(state)} – ${state.title}` : formatStateLabel(state);
+        return createItem(childTitle, state.pageIndex, topRefs[i]);
+      });
+      linkSiblings(childRefs, childItems);
+      item.set(PDFName.of('First'), childRefs[0]);
+      item.set(PDFName.of('Last'), childRefs[childRefs.length - 1]);
+      item.set(PDFName.of('Count'), context.obj(-children.length));
+    }
+    return item;
+  });
+  linkSiblings(topRefs, topItems);
+
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: topRefs[0],
+    Last: topRefs[topRefs.length - 1],
+    Count: topRefs.length,
+  }));
+
+  pdfDoc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+/**
+ * Add page labels, e.g. "15" or "15.2" for step 2 of slide 15
+ * 
+ * For AI: Viewers show these instead of raw page numbers, so "go to page 15.2"
+ * works. Extra pages of a split capture (fit "fitWidth") get a letter suffix.
+ * Cover and inserted pages (see applyStamps) keep their own labels.
+ */
+function addPageLabels(pdfDoc: PDFDocument, states: CapturedState[], extraPages: ExtraPage[] = []): void {
+  const context = pdfDoc.context;
+  const labels: Array<[number, string]> = extraPages.map((page) => [page.pageIndex, page.label]);
+
+  states.forEach((state) => {
+    const base = state.sub ? `${state.slideIndex + 1}.${state.sub.index}` : `${state.slideIndex + 1}`;
+    for (let i = 0; i < state.pageCount; i++) {
+      labels.push([state.pageIndex + i, i === 0 ? base : `${base}${String.fromCharCode(96 + Math.min(i, 26))}`]);
+    }
+  });
+
+  // Ranges must be in page order
+  const nums = labels
+    .sort((a, b) => a[0] - b[0])
+    .flatMap(([pageIndex, label]) => [pageIndex, context.obj({ P: PDFHexString.fromText(label) })]);
+  pdfDoc.catalog.set(PDFName.of('PageLabels'), context.obj({ Nums: nums }));
+}
+
+/**
+ * Set PDF document metadata from config
+ * 
+ * For AI: Title falls back to the first slide title so the viewer's window title
+ * and search indexes show something meaningful even without config.
+ */
+function applyMetadata(pdfDoc: PDFDocument, states: CapturedState[], config: ExportConfig): void {
+  const metadata = config.metadata || {};
+  const title = metadata.title || states[0]?.title;
+
+  if (title) {
+    pdfDoc.setTitle(title, { showInWindowTitleBar: true });
+  }
+  if (metadata.author) {
+    pdfDoc.setAuthor(metadata.author);
+  }
+  if (metadata.subject) {
+    pdfDoc.setSubject(metadata.subject);
+  }
+  if (metadata.keywords && metadata.keywords.length > 0) {
+    pdfDoc.setKeywords(metadata.keywords);
+  }
+  pdfDoc.setCreator('Figma Make to PDF');
+  pdfDoc.setCreationDate(new Date());
+  pdfDoc.setModificationDate(new Date());
+}
+
+/**
+ * Attach speaker notes to the merged PDF as note annotations (notes.pdfAnnotations)
+ * 
+ * For AI: Text annotations (PDF spec 12.5.6.4) show up as a closed note icon
+ * in the top right corner of the state's first page. They aren't printed.
+ */
+function addNotesAnnotations(pdfDoc: PDFDocument, states: CapturedState[]): void {
+  states.filter((state) => state.notes).forEach((state) => {
+    const pdfPage = pdfDoc.getPage(state.pageIndex);
+    const { width, height } = pdfPage.getSize();
+    const annotation = pdfDoc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Text',
+      Rect: [width - 30, height - 30, width - 10, height - 10],
+      Contents: PDFHexString.fromText(state.notes!),
+      T: PDFHexString.fromText('Speaker notes'),
+      Name: 'Comment',
+      Open: false,
+      C: [1, 0.82, 0.2],
+    });
+    pdfPage.node.addAnnot(pdfDoc.context.register(annotation));
+  });
+}
+
+/**
+ * Wrap text into lines that fit maxWidth (blank lines are kept, long words are split)
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const fits = (line: string) => font.widthOfTextAtSize(line, size) <= maxWidth;
+
+  return text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = '';
+
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        return;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      while (!fits(word)) {
+        let length = word.length - 1;
+        while (length > 1 && !fits(word.slice(0, length))) {
+          length--;
+        }
+        lines.push(word.slice(0, length));
+        word = word.slice(length);
+      }
+      line = word;
+    });
+
+    return line || lines.length === 0 ? [...lines, line] : lines;
+  });
+}
+
+/**
+ * Build the notes pages PDF (--format notes)
+ * 
+ * For AI: One portrait page per state in the configured pdfFormat (A4 for
+ * "Screenshot"): a header with the state label, the slide on top - its first
+ * laid-out page embedded as vector content, so it works in both render
+ * modes - and the wrapped notes below. Long notes continue on extra pages.
+ */
+const createNotesPdf = async (states: CapturedState[], config: ExportConfig): Promise<PDFDocument> => {
+  const notesPdf = await PDFDocument.create();
+  const font = await notesPdf.embedFont(StandardFonts.Helvetica);
+  const bold = await notesPdf.embedFont(StandardFonts.HelveticaBold);
+  const charset = new Set(font.getCharacterSet());
+
+  const size = resolvePageSize(config) ?? PageSizes.A4;
+  const [pageWidth, pageHeight] = [Math.min(...size), Math.max(...size)];
+  const margin = 48;
+  const contentWidth = pageWidth - margin * 2;
+  const fontSize = 11;
+  const lineHeight = fontSize * 1.4;
+
+  for (const state of states) {
+    let pdfPage = notesPdf.addPage([pageWidth, pageHeight]);
+    const header = toEncodableText(`${formatStateLabel(state)}: ${state.title}`, charset);
+    pdfPage.drawText(header, { x: margin, y: pageHeight - margin, size: 9, font, color: rgb(0.45, 0.45, 0.45), maxWidth: contentWidth });
+
+    // Slide, scaled into the top part of the page
+    const slide = await notesPdf.embedPage(state.pdfDoc.getPage(0));
+    const scale = Math.min(contentWidth / slide.width, (pageHeight * 0.42) / slide.height);
+    const slideWidth = slide.width * scale;
+    const slideHeight = slide.height * scale;
+    const slideTop = pageHeight - margin - 16;
+    const slideX = margin + (contentWidth - slideWidth) / 2;
+    pdfPage.drawPage(slide, { x: slideX, y: slideTop - slideHeight, width: slideWidth, height: slideHeight });
+    pdfPage.drawRectangle({
+      x: slideX,
+      y: slideTop - slideHeight,
+      width: slideWidth,
+      height: slideHeight,
+      borderColor: rgb(0.75, 0.75, 0.75),
+      borderWidth: 0.75,
+    });
+
+    // Notes, continued on extra pages when they don't fit
+    let y = slideTop - slideHeight - 32;
+    if (!state.notes) {
+      pdfPage.drawText('No speaker notes', { x: margin, y, size: fontSize, font, color: rgb(0.6, 0.6, 0.6) });
+      continue;
+    }
+
+    pdfPage.drawText('Notes', { x: margin, y, size: fontSize, font: bold });
+    y -= lineHeight * 1.5;
+    for (const line of wrapText(toEncodableText(state.notes, charset), font, fontSize, contentWidth)) {
+      if (y < margin) {
+        pdfPage = notesPdf.addPage([pageWidth, pageHeight]);
+        pdfPage.drawText(`${header} (continued)`, { x: margin, y: pageHeight - margin, size: 9, font, color: rgb(0.45, 0.45, 0.45), maxWidth: contentWidth });
+        y = pageHeight - margin - 32;
+      }
+      pdfPage.drawText(line, { x: margin, y, size: fontSize, font });
+      y -= lineHeight;
+    }
+  }
+
+  applyMetadata(notesPdf, states, config);
+  return notesPdf;
+};
+
+// Handout grid [columns, rows] per page count on portrait pages - swapped on landscape pages
+const HANDOUT_GRIDS: Record<number, [number, number]> = { 2: [1, 2], 3: [1, 3], 4: [2, 2], 6: [2, 3], 9: [3, 3] };
+
+/**
+ * Build the handout PDF (--format handout)
+ * 
+ * For AI: Lays out perPage states per page in a grid on the pdfFormat/landscape
+ * page (A4 for "Screenshot"). The screenshots already on disk are embedded
+ * as they are - states without one (vector mode, failed slides) use their
+ * laid-out PDF page instead, so nothing is rendered again. With noteLines the
+ * slide takes the left part of its cell and ruled lines fill the rest.
+ */
+const createHandoutPdf = async (states: CapturedState[], config: ExportConfig): Promise<PDFDocument> => {
+  const handout = config.handout || {};
+  const perPage = handout.perPage ?? 6;
+  const margin = handout.margin ?? 36;
+  const gutter = handout.gutter ?? 18;
+  const lineSpacing = handout.lineSpacing ?? 18;
+  const labelHeight = handout.slideNumbers !== false ? 14 : 0;
+
+  const handoutPdf = await PDFDocument.create();
+  const font = await handoutPdf.embedFont(StandardFonts.Helvetica);
+  const charset = new Set(font.getCharacterSet());
+
+  const [pageWidth, pageHeight] = resolvePageSize(config)
+    ?? (config.landscape ? [PageSizes.A4[1], PageSizes.A4[0]] : PageSizes.A4);
+  const [portraitColumns, portraitRows] = HANDOUT_GRIDS[perPage];
+  const [columns, rows] = pageWidth > pageHeight ? [portraitRows, portraitColumns] : [portraitColumns, portraitRows];
+  const cellWidth = (pageWidth - margin * 2 - gutter * (columns - 1)) / columns;
+  const cellHeight = (pageHeight - margin * 2 - gutter * (rows - 1)) / rows;
+  const slideAreaWidth = handout.noteLines ? cellWidth * 0.55 : cellWidth;
+
+  for (let start = 0; start < states.length; start += perPage) {
+    const pdfPage = handoutPdf.addPage([pageWidth, pageHeight]);
+
+    for (const [position, state] of states.slice(start, start + perPage).entries()) {
+      const cellX = margin + (position % columns) * (cellWidth + gutter);
+      const cellTop = pageHeight - margin - Math.floor(position / columns) * (cellHeight + gutter);
+
+      // Slide - top-aligned, centered in its cell unless note lines take the right part (WebP uses the PDF page)
+      const image = state.screenshotPath && fs.existsSync(state.screenshotPath) ? fs.readFileSync(state.screenshotPath) : null;
+      const imageFormat = image ? detectImageFormat(image) : null;
+      const screenshot = imageFormat === 'png' ? await handoutPdf.embedPng(image!)
+        : imageFormat === 'jpeg' ? await handoutPdf.embedJpg(new Uint8Array(image!))
+          : null;
+      const page = screenshot ? null : await handoutPdf.embedPage(state.pdfDoc.getPage(0));
+      const source = screenshot ?? page!;
+      const scale = Math.min(slideAreaWidth / source.width, (cellHeight - labelHeight) / source.height);
+      const width = source.width * scale;
+      const height = source.height * scale;
+      const x = handout.noteLines ? cellX : cellX + (cellWidth - width) / 2;
+      const y = cellTop - height;
+
+      if (screenshot) {
+        pdfPage.drawImage(screenshot, { x, y, width, height });
+      } else {
+        pdfPage.drawPage(page!, { x, y, width, height });
+      }
+      if (handout.border !== false) {
+        pdfPage.drawRectangle({ x, y, width, height, borderColor: rgb(0.7, 0.7, 0.7), borderWidth: 0.5 });
+      }
+      if (labelHeight > 0) {
+        pdfPage.drawText(toEncodableText(formatStateLabel(state), charset), {
+          x,
+          y: y - 10,
+          size: 8,
+          font,
+          color: rgb(0.45, 0.45, 0.45),
+        });
+      }
+
+      // Ruled lines for notes, from the top of the slide to the bottom of the cell
+      if (handout.noteLines) {
+        const lineStart = cellX + slideAreaWidth + gutter / 2;
+        for (let lineY = cellTop - lineSpacing; lineY >= cellTop - cellHeight; lineY -= lineSpacing) {
+          pdfPage.drawLine({
+            start: { x: lineStart, y: lineY },
+            end: { x: cellX + cellWidth, y: lineY },
+            thickness: 0.5,
+            color: rgb(0.75, 0.75, 0.75),
+          });
+        }
+      }
+    }
+  }
+
+  applyMetadata(handoutPdf, states, config);
+  return handoutPdf;
+};
+
+// Page added by applyStamps - a cover or a page of an inserted PDF
+interface ExtraPage {
+  pageIndex: number;
+  kind: 'cover' | 'inserted';
+  label: string;
+}
+
+/**
+ * Short hash of the current git commit ('' outside a repository)
+ */
+function resolveGitSha(): string {
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Draw a header/footer line
+ */
+function drawTextStamp(
+  pdfPage: PDFPage,
+  stamp: TextStampConfig,
+  edge: 'top' | 'bottom',
+  text: string,
+  font: PDFFont
+): void {
+  const { width, height } = pdfPage.getSize();
+  const size = stamp.fontSize ?? 9;
+  const margin = stamp.margin ?? 20;
+  const textWidth = font.widthOfTextAtSize(text, size);
+  const x = stamp.align === 'left' ? margin
+    : stamp.align === 'right' ? width - margin - textWidth
+      : (width - textWidth) / 2;
+
+  pdfPage.drawText(text, {
+    x,
+    y: edge === 'top' ? height - margin - size : margin,
+    size,
+    font,
+    color: parseHexColor(stamp.color ?? '#666666'),
+  });
+}
+
+/**
+ * Draw a watermark - one diagonal line across the page or a tiled pattern
+ * 
+ * For AI: drawText rotates around the text origin (left end of the baseline),
+ * so the diagonal origin is moved back by half the rotated text box to center it.
+ */
+function drawWatermark(pdfPage: PDFPage, watermark: WatermarkConfig, text: string, font: PDFFont): void {
+  const { width, height } = pdfPage.getSize();
+  const options = {
+    font,
+    color: parseHexColor(watermark.color ?? '#888888'),
+    opacity: watermark.opacity ?? 0.15,
+  };
+
+  if (watermark.mode === 'tiled') {
+    const size = watermark.fontSize ?? 28;
+    const stepX = font.widthOfTextAtSize(text, size) + size * 3;
+    const stepY = size * 5;
+    for (let row = 0, y = -height; y < height * 2; row++, y += stepY) {
+      for (let x = -width + (row % 2) * (stepX / 2); x < width * 2; x += stepX) {
+        pdfPage.drawText(text, { ...options, x, y, size, rotate: degrees(30) });
+      }
+    }
+    return;
+  }
+
+  const angle = Math.atan2(height, width);
+  const size = watermark.fontSize ?? (Math.hypot(width, height) * 0.7) / Math.max(font.widthOfTextAtSize(text, 1), 1);
+  const halfWidth = font.widthOfTextAtSize(text, size) / 2;
+  const halfHeight = (size * 0.7) / 2;
+  pdfPage.drawText(text, {
+    ...options,
+    x: width / 2 - (halfWidth * Math.cos(angle) - halfHeight * Math.sin(angle)),
+    y: height / 2 - (halfWidth * Math.sin(angle) + halfHeight * Math.cos(angle)),
+    size,
+    rotate: degrees((angle * 180) / Math.PI),
+  });
+}
+
+/**
+ * Apply stamps to the merged PDF: inserted PDFs, cover page, header/footer, watermark
+ * 
+ * For AI: Runs before the outline and page labels - inserted pages shift the
+ * pageIndex of every later state, so bookmarks and labels still point at the
+ * right slides. Several inserts at the same spot keep their config order.
+ * {page}/{total} are physical page numbers of the final PDF (cover included),
+ * {slideTitle} is empty on inserted pages. Stamps skip the cover and inserted
+ * pages unless their skip list says otherwise. Returns the added pages for
+ * the page labels.
+ */
+const applyStamps = async (pdfDoc: PDFDocument, states: CapturedState[], config: ExportConfig): Promise<ExtraPage[]> => {
+  const stamps = config.stamps;
+  const extraPages: ExtraPage[] = [];
+  if (!stamps) {
+    return extraPages;
+  }
+
+  const insertPages = (index: number, pages: PDFPage[], kind: ExtraPage['kind'], label: string) => {
+    states.forEach((state) => {
+      if (state.pageIndex >= index) state.pageIndex += pages.length;
+    });
+    extraPages.forEach((page) => {
+      if (page.pageIndex >= index) page.pageIndex += pages.length;
+    });
+    pages.forEach((pdfPage, i) => {
+      pdfDoc.insertPage(index + i, pdfPage);
+      extraPages.push({ pageIndex: index + i, kind, label: pages.length > 1 ? `${label} ${i + 1}` : label });
+    });
+  };
+
+  // External PDFs
+  for (const insert of stamps.insert || []) {
+    let source: PDFDocument;
+    try {
+      source = await PDFDocument.load(fs.readFileSync(path.resolve(insert.file)));
+    } catch (error) {
+      throw new ExportError(`Can't insert ${insert.file}: ${error instanceof Error ? error.message : error}`, EXIT_CODES.config);
+    }
+
+    let index = pdfDoc.getPageCount();
+    if (insert.afterSlide) {
+      const before = states.filter((state) => state.slideIndex < insert.afterSlide!);
+      const last = before[before.length - 1];
+      index = last ? last.pageIndex + last.pageCount : 0;
+    } else if (insert.position === 'start') {
+      index = 0;
+    }
+    while (extraPages.some((page) => page.pageIndex === index)) {
+      index++;
+    }
+
+    insertPages(index, await pdfDoc.copyPages(source, source.getPageIndices()), 'inserted', path.parse(insert.file).name);
+  }
+
+  // Cover - sized like the first slide page, text drawn below once {total} is known
+  let cover: PDFPage | null = null;
+  if (stamps.cover) {
+    const firstPage = states.length > 0 ? pdfDoc.getPage(states[0].pageIndex) : null;
+    const size = firstPage ? firstPage.getSize() : null;
+    cover = pdfDoc.insertPage(0, size ? [size.width, size.height] : [PageSizes.A4[1], PageSizes.A4[0]]);
+    states.forEach((state) => {
+      state.pageIndex += 1;
+    });
+    extraPages.forEach((page) => {
+      page.pageIndex += 1;
+    });
+    extraPages.push({ pageIndex: 0, kind: 'cover', label: 'Cover' });
+  }
+
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const charset = new Set(font.getCharacterSet());
+  const total = pdfDoc.getPageCount();
+  const date = new Date().toISOString().slice(0, 10);
+  const gitSha = JSON.stringify(stamps).includes('{gitSha}') ? resolveGitSha() : '';
+  const coverTitle = fillTemplate(stamps.cover?.title ?? config.metadata?.title ?? states[0]?.title ?? 'Presentation', { total, date, gitSha });
+
+  if (cover && stamps.cover) {
+    const { width, height } = cover.getSize();
+    const color = parseHexColor(stamps.cover.color ?? '#111111');
+    if (stamps.cover.background) {
+      cover.drawRectangle({ x: 0, y: 0, width, height, color: parseHexColor(stamps.cover.background) });
+    }
+
+    const titleSize = width / 18;
+    const lines = wrapText(toEncodableText(coverTitle, charset), bold, titleSize, width * 0.8);
+    const subtitle = toEncodableText(fillTemplate(stamps.cover.subtitle ?? '{date}', { page: 1, total, slideTitle: coverTitle, date, gitSha }), charset);
+    let y = height / 2 + (lines.length * titleSize * 1.2) / 2;
+    lines.forEach((line) => {
+      y -= titleSize * 1.2;
+      cover!.drawText(line, { x: (width - bold.widthOfTextAtSize(line, titleSize)) / 2, y, size: titleSize, font: bold, color });
+    });
+    if (subtitle) {
+      const subtitleSize = titleSize * 0.45;
+      cover.drawText(subtitle, {
+        x: (width - font.widthOfTextAtSize(subtitle, subtitleSize)) / 2,
+        y: y - subtitleSize * 2.5,
+        size: subtitleSize,
+        font,
+        color,
+      });
+    }
+  }
+
+  // Header, footer and watermark on every page their skip rules allow
+  const pageStates = new Map<number, CapturedState>();
+  states.forEach((state) => {
+    for (let i = 0; i < state.pageCount; i++) pageStates.set(state.pageIndex + i, state);
+  });
+  const isSkipped = (rules: StampSkipRule[] | undefined, pageIndex: number) => {
+    const kind = extraPages.find((page) => page.pageIndex === pageIndex)?.kind;
+    const state = pageStates.get(pageIndex);
+    return (rules ?? ['cover', 'inserted']).some((rule) => rule === kind || (state && rule === state.slideIndex + 1));
+  };
+
+  pdfDoc.getPages().forEach((pdfPage, pageIndex) => {
+    const values = {
+      page: pageIndex + 1,
+      total,
+      slideTitle: pageStates.get(pageIndex)?.title ?? (pageIndex === 0 && cover ? coverTitle : ''),
+      date,
+      gitSha,
+    };
+    const render = (template: string) => toEncodableText(fillTemplate(template, values), charset);
+
+    if (stamps.watermark && !isSkipped(stamps.watermark.skip, pageIndex)) {
+      drawWatermark(pdfPage, stamps.watermark, render(stamps.watermark.text), bold);
+    }
+    if (stamps.header && !isSkipped(stamps.header.skip, pageIndex)) {
+      drawTextStamp(pdfPage, stamps.header, 'top', render(stamps.header.text), font);
+    }
+    if (stamps.footer && !isSkipped(stamps.footer.skip, pageIndex)) {
+      drawTextStamp(pdfPage, stamps.footer, 'bottom', render(stamps.footer.text), font);
+    }
+  });
+
+  return extraPages;
+};
+
+/**
+ * Format a byte count, e.g. "840 KB" or "12.4 MB"
+ */
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Image XObjects drawn on the pages of a state in the merged PDF
+ */
+function findStateImages(pdfDoc: PDFDocument, state: CapturedState): PDFRef[] {
+  const refs = new Map<string, PDFRef>();
+  for (let i = state.pageIndex; i < state.pageIndex + state.pageCount; i++) {
+    const xObjects = pdfDoc.getPage(i).node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    xObjects?.entries().forEach(([, ref]) => {
+      const stream = ref instanceof PDFRef ? pdfDoc.context.lookupMaybe(ref, PDFStream) : undefined;
+      if (stream?.dict.get(PDFName.of('Subtype')) === PDFName.of('Image')) {
+        refs.set(ref.toString(), ref as PDFRef);
+      }
+    });
+  }
+  return [...refs.values()];
+}
+
+/**
+ * Re-encode screenshots with lower JPEG quality until the PDF fits image.maxSizeMB
+ * 
+ * For AI: Starts at image.quality (default 85) and goes down by qualityStep
+ * (default 10) to minQuality (default 40), saving the PDF after each round.
+ * Images are swapped in place (same XObject refs), so pages, stamps and links
+ * stay as they are. Every round encodes from the saved screenshot, never from
+ * an already shrunk image. Slides pinned to "png" in image.overrides keep
+ * their images, and a per-slide quality is a ceiling. If minQuality isn't
+ * enough, the PDF at minQuality is returned with a warning.
+ */
+const fitPdfToSize = async (browser: Browser, pdfDoc: PDFDocument, states: CapturedState[], config: ExportConfig): Promise<Uint8Array> => {
+  const image = config.image || {};
+  const limit = (image.maxSizeMB ?? Infinity) * 1024 * 1024;
+  const minQuality = image.minQuality ?? 40;
+  let pdfBytes = await pdfDoc.save();
+  if (pdfBytes.length <= limit) {
+    return pdfBytes;
+  }
+
+  // Lossless images count as quality Infinity - any JPEG round makes them smaller
+  const candidates = states
+    .filter((state) => state.screenshotPath && fs.existsSync(state.screenshotPath))
+    .filter((state) => image.overrides?.[state.slideIndex.toString()]?.format !== 'png')
+    .map((state) => {
+      const encoding = resolveImageEncoding(config, state.slideIndex);
+      return { state, refs: findStateImages(pdfDoc, state), ceiling: encoding.quality, current: encoding.format === 'png' ? Infinity : encoding.quality };
+    })
+    .filter((candidate) => candidate.refs.length > 0);
+
+  console.log(`   📉 ${formatSize(pdfBytes.length)} is above maxSizeMB (${image.maxSizeMB} MB) - lowering image quality`);
+  const page = await browser.newPage();
+  try {
+    let quality = Math.max(image.quality ?? 85, minQuality);
+    while (pdfBytes.length > limit) {
+      let changed = 0;
+      for (const candidate of candidates) {
+        const target = Math.min(quality, candidate.ceiling);
+        if (target >= candidate.current) continue;
+
+        const jpeg = await encodeImage(page, fs.readFileSync(candidate.state.screenshotPath!), 'jpeg', target);
+        const size = readImageSize(jpeg)!;
+        candidate.refs.forEach((ref) => pdfDoc.context.assign(ref, pdfDoc.context.stream(jpeg, {
+          Type: 'XObject',
+          Subtype: 'Image',
+          Width: size.width,
+          Height: size.height,
+          BitsPerComponent: 8,
+          ColorSpace: 'DeviceRGB',
+          Filter: 'DCTDecode',
+        })));
+        candidate.current = target;
+        changed++;
+      }
+
+      if (changed > 0) {
+        pdfBytes = await pdfDoc.save();
+        console.log(`      JPEG quality ${quality}: ${formatSize(pdfBytes.length)}`);
+      }
+      if (quality <= minQuality) break;
+      quality = Math.max(quality - (image.qualityStep ?? 10), minQuality);
+    }
+  } finally {
+    await page.close();
+  }
+
+  if (pdfBytes.length > limit) {
+    console.warn(`⚠️  PDF is still ${formatSize(pdfBytes.length)} at quality ${minQuality} - lower image.minQuality or the viewport/deviceScaleFactor`);
+  }
+  return pdfBytes;
+};
+
+/**
+ * Report the PDF size per slide (console and exports/<name>-size-report.json)
+ * 
+ * For AI: A slide's size is the content streams and XObjects (images, vector
+ * pages) of its pages - shared objects and fonts are counted once, for the
+ * first slide that uses them, and the document structure is left out, so
+ * the slides add up to a bit less than the file.
+ */
+function reportPdfSize(pdfDoc: PDFDocument, states: CapturedState[], totalBytes: number, config: ExportConfig): void {
+  const counted = new Set<string>();
+  const slides = new Map<number, { slide: number; title: string; states: number; bytes: number }>();
+
+  states.forEach((state) => {
+    let bytes = 0;
+    const add = (ref: unknown) => {
+      if (!(ref instanceof PDFRef) || counted.has(ref.toString())) return;
+      counted.add(ref.toString());
+      const stream = pdfDoc.context.lookupMaybe(ref, PDFStream);
+      if (stream) {
+        bytes += stream.getContentsSize();
+        add(stream.dict.get(PDFName.of('SMask')));
+      }
+    };
+    for (let i = state.pageIndex; i < state.pageIndex + state.pageCount; i++) {
+      const node = pdfDoc.getPage(i).node;
+      const contents = node.get(PDFName.of('Contents'));
+      (contents instanceof PDFArray ? contents.asArray() : [contents]).forEach(add);
+      node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict)?.entries().forEach(([, ref]) => add(ref));
+    }
+
+    const slide = slides.get(state.slideIndex) ?? { slide: state.slideIndex + 1, title: state.title, states: 0, bytes: 0 };
+    slide.states++;
+    slide.bytes += bytes;
+    slides.set(state.slideIndex, slide);
+  });
+
+  const reportPath = path.join(OUTPUT_DIR, `${resolveOutputName(config)}-size-report.json`);
+  const report = { totalBytes, maxSizeMB: config.image?.maxSizeMB ?? null, slides: [...slides.values()] };
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+  const largest = [...slides.values()].sort((a, b) => b.bytes - a.bytes).slice(0, 5);
+  console.log(`📦 PDF size: ${formatSize(totalBytes)} - largest: ${largest.map((slide) => `slide ${slide.slide} (${formatSize(slide.bytes)})`).join(', ')}`);
+  console.log(`📋 Size report: ${reportPath}`);
+}
+
+// File stored in a ZIP archive (PPTX package part)
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 of a buffer (ZIP checksum)
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack files into a ZIP archive (deflate, no ZIP64)
+ * 
+ * For AI: PPTX is a ZIP of XML parts and media - writing it with zlib keeps
+ * the exporter free of an extra dependency. Archives over 4 GB aren't supported.
+ */
+function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Escape text for XML (drops control characters XML 1.0 doesn't allow)
+ */
+function escapeXml(text: string): string {
+  return escapeHtml(text).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// Namespaces and content types of the PPTX parts
+const PPTX_NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" '
+  + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" '
+  + 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const PPTX_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PPTX_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Pixels to EMU (PowerPoint units) at 96 DPI
+const EMU_PER_PX = 9525;
+
+// Group shape properties every shape tree starts with
+const PPTX_TREE_START = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+  + '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const PPTX_COLOR_MAP = '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" '
+  + 'accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+
+/**
+ * Build a relationships part
+ */
+function pptxRelationships(relationships: Array<[string, string, string]>): string {
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + relationships.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`).join('')
+    + '</Relationships>';
+}
+
+/**
+ * Build a placeholder shape (title, notes body, slide image...)
+ */
+function pptxPlaceholder(id: number, name: string, placeholder: string, options: { hidden?: boolean; frame?: [number, number, number, number]; paragraphs?: string[] } = {}): string {
+  const frame = options.frame
+    ? `<a:xfrm><a:off x="${options.frame[0]}" y="${options.frame[1]}"/><a:ext cx="${options.frame[2]}" cy="${options.frame[3]}"/></a:xfrm>`
+    : '';
+  const body = options.paragraphs
+    ? '<p:txBody><a:bodyPr/><a:lstStyle/>' + options.paragraphs.map((text) => text
+      ? `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(text)}</a:t></a:r></a:p>`
+      : '<a:p><a:endParaRPr lang="en-US" dirty="0"/></a:p>').join('') + '</p:txBody>'
+    : '';
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"${options.hidden ? ' hidden="1"' : ''}/>`
+    + `<p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr>${placeholder}</p:nvPr></p:nvSpPr>`
+    + `<p:spPr>${frame}</p:spPr>${body}</p:sp>`;
+}
+
+/**
+ * Build a minimal theme (masters can't be opened without one)
+ */
+function pptxTheme(): string {
+  const colors: Array<[string, string]> = [
+    ['dk1', '000000'], ['lt1', 'FFFFFF'], ['dk2', '1F2937'], ['lt2', 'F3F4F6'],
+    ['accent1', '2563EB'], ['accent2', '16A34A'], ['accent3', 'EA580C'], ['accent4', '9333EA'],
+    ['accent5', '0891B2'], ['accent6', 'DC2626'], ['hlink', '2563EB'], ['folHlink', '7C3AED'],
+  ];
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const font = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>';
+
+  return `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Export"><a:themeElements>`
+    + `<a:clrScheme name="Export">${colors.map(([name, value]) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`).join('')}</a:clrScheme>`
+    + `<a:fontScheme name="Export"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>`
+    + '<a:fmtScheme name="Export">'
+    + `<a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst>`
+    + `<a:lnStyleLst>${`<a:ln w="6350">${fill}</a:ln>`.repeat(3)}</a:lnStyleLst>`
+    + `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>`
+    + `<a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst>`
+    + '</a:fmtScheme></a:themeElements></a:theme>';
+}
+
+/**
+ * Build a PowerPoint deck from the captured states
+ * 
+ * For AI: One slide per state (in PDF order) with its screenshot as a
+ * full-bleed picture - captures with a different aspect ratio (fullPage)
+ * are cropped from the top. The title goes into a hidden title placeholder,
+ * so the outline view and slide sorter show real titles. Speaker notes
+ * (pptx.notes) go to the notes pages. States without a screenshot (failed
+ * slides) get a visible title instead. Slide size is the viewport.
+ */
+function createPptx(states: CapturedState[], config: ExportConfig): Buffer {
+  const width = config.viewport.width * EMU_PER_PX;
+  const height = config.viewport.height * EMU_PER_PX;
+  const withNotes = config.pptx?.notes !== false && states.some((state) => state.notes);
+  const titleFrame: [number, number, number, number] = [
+    Math.round(width * 0.05), Math.round(height * 0.05), Math.round(width * 0.9), Math.round(height * 0.15),
+  ];
+  const metadata = config.metadata || {};
+  const files: ZipEntry[] = [];
+  const add = (name: string, content: string | Buffer) => {
+    files.push({ name, data: typeof content === 'string' ? Buffer.from(content, 'utf-8') : content });
+  };
+
+  const overrides: Array<[string, string]> = [
+    ['/ppt/presentation.xml', `${PPTX_TYPE}.presentation.main+xml`],
+    ['/ppt/slideMasters/slideMaster1.xml', `${PPTX_TYPE}.slideMaster+xml`],
+    ['/ppt/slideLayouts/slideLayout1.xml', `${PPTX_TYPE}.slideLayout+xml`],
+    ['/ppt/theme/theme1.xml', 'application/vnd.openxmlformats-officedocument.theme+xml'],
+    ['/ppt/presProps.xml', `${PPTX_TYPE}.presProps+xml`],
+    ['/ppt/viewProps.xml', `${PPTX_TYPE}.viewProps+xml`],
+    ['/ppt/tableStyles.xml', `${PPTX_TYPE}.tableStyles+xml`],
+    ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+    ['/docProps/app.xml', 'application/vnd.openxmlformats-officedocument.extended-properties+xml'],
+  ];
+  const presentationRels: Array<[string, string, string]> = [
+    ['rId1', `${PPTX_REL}/slideMaster`, 'slideMasters/slideMaster1.xml'],
+    ['rId2', `${PPTX_REL}/theme`, 'theme/theme1.xml'],
+    ['rId3', `${PPTX_REL}/presProps`, 'presProps.xml'],
+    ['rId4', `${PPTX_REL}/viewProps`, 'viewProps.xml'],
+    ['rId5', `${PPTX_REL}/tableStyles`, 'tableStyles.xml'],
+  ];
+
+  // Slides
+  states.forEach((state, i) => {
+    const number = i + 1;
+    const image = state.screenshotPath && fs.existsSync(state.screenshotPath) ? fs.readFileSync(state.screenshotPath) : null;
+    const relationships: Array<[string, string, string]> = [['rId1', `${PPTX_REL}/slideLayout`, '../slideLayouts/slideLayout1.xml']];
+    let picture = '';
+
+    if (image) {
+      // Crop to the slide's aspect ratio
+      const imageSize = readImageSize(image);
+      const slideRatio = height / width;
+      const imageRatio = imageSize ? imageSize.height / imageSize.width : slideRatio;
+      const extension = detectImageFormat(image) === 'jpeg' ? 'jpg' : 'png';
+      const crop = imageRatio > slideRatio
+        ? `<a:srcRect b="${Math.round((1 - slideRatio / imageRatio) * 100000)}"/>`
+        : imageRatio < slideRatio
+          ? `<a:srcRect l="${Math.round((1 - imageRatio / slideRatio) * 50000)}" r="${Math.round((1 - imageRatio / slideRatio) * 50000)}"/>`
+          : '';
+
+      add(`ppt/media/image${number}.${extension}`, image);
+      relationships.push(['rId2', `${PPTX_REL}/image`, `../media/image${number}.${extension}`]);
+      picture = `<p:pic><p:nvPicPr><p:cNvPr id="2" name="${escapeXml(formatStateLabel(state))}"/>`
+        + '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>'
+        + `<p:blipFill><a:blip r:embed="rId2"/>${crop}<a:stretch><a:fillRect/></a:stretch></p:blipFill>`
+        + `<p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+    }
+
+    if (withNotes && state.notes) {
+      relationships.push(['rId3', `${PPTX_REL}/notesSlide`, `../notesSlides/notesSlide${number}.xml`]);
+      add(`ppt/notesSlides/notesSlide${number}.xml`, `${XML_HEADER}<p:notes ${PPTX_NS}><p:cSld><p:spTree>${PPTX_TREE_START}`
+        + pptxPlaceholder(2, 'Slide Image', '<p:ph type="sldImg"/>')
+        + pptxPlaceholder(3, 'Notes', '<p:ph type="body" idx="1"/>', { paragraphs: state.notes.split('\n') })
+        + '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>');
+      add(`ppt/notesSlides/_rels/notesSlide${number}.xml.rels`, pptxRelationships([
+        ['rId1', `${PPTX_REL}/notesMaster`, '../notesMasters/notesMaster1.xml'],
+        ['rId2', `${PPTX_REL}/slide`, `../slides/slide${number}.xml`],
+      ]));
+      overrides.push([`/ppt/notesSlides/notesSlide${number}.xml`, `${PPTX_TYPE}.notesSlide+xml`]);
+    }
+
+    add(`ppt/slides/slide${number}.xml`, `${XML_HEADER}<p:sld ${PPTX_NS}><p:cSld><p:spTree>${PPTX_TREE_START}${picture}`
+      + pptxPlaceholder(3, 'Title', '<p:ph type="title"/>', { hidden: image !== null, paragraphs: [state.title] })
+      + '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>');
+    add(`ppt/slides/_rels/slide${number}.xml.rels`, pptxRelationships(relationships));
+    overrides.push([`/ppt/slides/slide${number}.xml`, `${PPTX_TYPE}.slide+xml`]);
+    presentationRels.push([`rId${100 + i}`, `${PPTX_REL}/slide`, `slides/slide${number}.xml`]);
+  });
+
+  // Master, layout and theme - a single "title only" layout
+  add('ppt/slideMasters/slideMaster1.xml', `${XML_HEADER}<p:sldMaster ${PPTX_NS}><p:cSld>`
+    + '<p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>'
+    + `<p:spTree>${PPTX_TREE_START}${pptxPlaceholder(2, 'Title', '<p:ph type="title"/>', { frame: titleFrame, paragraphs: [''] })}</p:spTree>`
+    + `</p:cSld>${PPTX_COLOR_MAP}<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>`);
+  add('ppt/slideMasters/_rels/slideMaster1.xml.rels', pptxRelationships([
+    ['rId1', `${PPTX_REL}/slideLayout`, '../slideLayouts/slideLayout1.xml'],
+    ['rId2', `${PPTX_REL}/theme`, '../theme/theme1.xml'],
+  ]));
+  add('ppt/slideLayouts/slideLayout1.xml', `${XML_HEADER}<p:sldLayout ${PPTX_NS} type="titleOnly" preserve="1">`
+    + `<p:cSld name="Title Only"><p:spTree>${PPTX_TREE_START}${pptxPlaceholder(2, 'Title', '<p:ph type="title"/>')}</p:spTree></p:cSld>`
+    + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>');
+  add('ppt/slideLayouts/_rels/slideLayout1.xml.rels', pptxRelationships([
+    ['rId1', `${PPTX_REL}/slideMaster`, '../slideMasters/slideMaster1.xml'],
+  ]));
+  add('ppt/theme/theme1.xml', pptxTheme());
+
+  // Notes master (with its own theme) - only if some state has notes
+  if (withNotes) {
+    add('ppt/notesMasters/notesMaster1.xml', `${XML_HEADER}<p:notesMaster ${PPTX_NS}><p:cSld>`
+      + '<p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>'
+      + `<p:spTree>${PPTX_TREE_START}`
+      + pptxPlaceholder(2, 'Slide Image', '<p:ph type="sldImg" idx="2"/>', { frame: [381000, 685800, 6096000, 3429000] })
+      + pptxPlaceholder(3, 'Notes', '<p:ph type="body" sz="quarter" idx="1"/>', { frame: [685800, 4400550, 5486400, 3600450], paragraphs: [''] })
+      + `</p:spTree></p:cSld>${PPTX_COLOR_MAP}</p:notesMaster>`);
+    add('ppt/notesMasters/_rels/notesMaster1.xml.rels', pptxRelationships([
+      ['rId1', `${PPTX_REL}/theme`, '../theme/theme2.xml'],
+    ]));
+    add('ppt/theme/theme2.xml', pptxTheme());
+    overrides.push(
+      ['/ppt/notesMasters/notesMaster1.xml', `${PPTX_TYPE}.notesMaster+xml`],
+      ['/ppt/theme/theme2.xml', 'application/vnd.openxmlformats-officedocument.theme+xml']
+    );
+    presentationRels.push(['rId6', `${PPTX_REL}/notesMaster`, 'notesMasters/notesMaster1.xml']);
+  }
+
+  add('ppt/presentation.xml', `${XML_HEADER}<p:presentation ${PPTX_NS} saveSubsetFonts="1">`
+    + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+    + (withNotes ? '<p:notesMasterIdLst><p:notesMasterId r:id="rId6"/></p:notesMasterIdLst>' : '')
+    + `<p:sldIdLst>${states.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${100 + i}"/>`).join('')}</p:sldIdLst>`
+    + `<p:sldSz cx="${width}" cy="${height}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`);
+  add('ppt/_rels/presentation.xml.rels', pptxRelationships(presentationRels));
+  add('ppt/presProps.xml', `${XML_HEADER}<p:presentationPr ${PPTX_NS}/>`);
+  add('ppt/viewProps.xml', `${XML_HEADER}<p:viewPr ${PPTX_NS}/>`);
+  add('ppt/tableStyles.xml', `${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`);
+
+  // Document properties (same metadata as the PDF)
+  const title = metadata.title || states[0]?.title || '';
+  add('docProps/core.xml', `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" `
+    + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(title)}</dc:title>`
+    + (metadata.author ? `<dc:creator>${escapeXml(metadata.author)}</dc:creator>` : '')
+    + (metadata.subject ? `<dc:subject>${escapeXml(metadata.subject)}</dc:subject>` : '')
+    + (metadata.keywords?.length ? `<cp:keywords>${escapeXml(metadata.keywords.join(', '))}</cp:keywords>` : '')
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+    + '</cp:coreProperties>');
+  add('docProps/app.xml', `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">`
+    + `<Application>Figma Make to PDF</Application><Slides>${states.length}</Slides></Properties>`);
+
+  add('_rels/.rels', pptxRelationships([
+    ['rId1', `${PPTX_REL}/officeDocument`, 'ppt/presentation.xml'],
+    ['rId2', 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', 'docProps/core.xml'],
+    ['rId3', `${PPTX_REL}/extended-properties`, 'docProps/app.xml'],
+  ]));
+
+  // [Content_Types].xml goes first, as Office writes it
+  const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/>'
+    + '<Default Extension="jpg" ContentType="image/jpeg"/>'
+    + overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join('')
+    + '</Types>';
+  return createZip([{ name: '[Content_Types].xml', data: Buffer.from(contentTypes, 'utf-8') }, ...files]);
+}
+
+/**
+ * Write the offline HTML viewer (returns the path of the .html file)
+ * 
+ * For AI: A static copy of the deck that works without the React app, the
+ * dev server or a network connection - open it from disk or any static host.
+ * States are grouped by main slide, so the keys mirror the original:
+ * left/right for slides, up/down for sub-slides/steps, space/PageDown walks
+ * through every state. The position is kept in the URL hash (#3.2 = third
+ * slide in the export, second state), so a link can point at a state.
+ * "file" mode embeds the screenshots as data URLs (one file to share, ~1.35x
+ * the PNG size); "folder" mode copies them next to index.html.
+ */
+function writeHtmlViewer(states: CapturedState[], config: ExportConfig): string {
+  const mode = config.html?.mode ?? 'file';
+  const folder = path.join(OUTPUT_DIR, `${resolveOutputName(config)}-html`);
+  const htmlPath = mode === 'folder' ? path.join(folder, 'index.html') : resolveOutputPath('html', config);
+
+  if (mode === 'folder') {
+    fs.rmSync(folder, { recursive: true, force: true });
+    fs.mkdirSync(path.join(folder, 'images'), { recursive: true });
+  }
+
+  const imageSource = (state: CapturedState): string | null => {
+    if (!state.screenshotPath || !fs.existsSync(state.screenshotPath)) {
+      return null;
+    }
+    if (mode === 'file') {
+      return `data:${MIME_TYPES[path.extname(state.screenshotPath)]};base64,${fs.readFileSync(state.screenshotPath).toString('base64')}`;
+    }
+    const name = path.basename(state.screenshotPath);
+    fs.copyFileSync(state.screenshotPath, path.join(folder, 'images', name));
+    return `images/${name}`;
+  };
+
+  // One entry per main slide with all its states
+  const slides: Array<{ number: number; title: string; states: Array<{ label: string; src: string | null; notes: string | null }> }> = [];
+  states.forEach((state) => {
+    let slide = slides[slides.length - 1];
+    if (!slide || slide.number !== state.slideIndex + 1) {
+      slide = { number: state.slideIndex + 1, title: state.title, states: [] };
+      slides.push(slide);
+    }
+    slide.states.push({ label: `${formatStateLabel(state)}: ${state.title}`, src: imageSource(state), notes: state.notes || null });
+  });
+
+  const title = config.metadata?.title || states[0]?.title || 'Presentation';
+  const deck = JSON.stringify({ slides }).replace(/</g, '\\u003c');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  * { box-sizing: border-box; }
+  html, body { margin: 0; height: 100%; background: #111; color: #eee; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+  body { display: flex; flex-direction: column; }
+  header { display: flex; align-items: center; gap: 8px; padding: 8px 16px; font-size: 14px; }
+  header .title { flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+  header button { background: #2a2a2a; color: #eee; border: 1px solid #444; border-radius: 4px; padding: 4px 10px; cursor: pointer; font: inherit; }
+  header button:hover { background: #3a3a3a; }
+  #counter { color: #aaa; font-variant-numeric: tabular-nums; }
+  main { flex: 1; min-height: 0; display: flex; align-items: center; justify-content: center; padding: 8px; }
+  main img { max-width: 100%; max-height: 100%; object-fit: contain; box-shadow: 0 4px 24px rgba(0, 0, 0, 0.5); }
+  .missing { color: #999; font-size: 20px; }
+  #notes { display: none; max-height: 25vh; overflow-y: auto; margin: 0 16px; padding: 8px 12px; background: #1c1c1c; border-radius: 4px; white-space: pre-wrap; font-size: 14px; line-height: 1.5; }
+  body.show-notes #notes:not(:empty) { display: block; }
+  nav { display: flex; gap: 8px; padding: 8px 16px 12px; overflow-x: auto; }
+  nav button { flex: 0 0 auto; position: relative; padding: 0; border: 2px solid transparent; border-radius: 4px; background: none; cursor: pointer; }
+  nav button.current { border-color: #3b82f6; }
+  nav img, nav .thumb-missing { display: block; width: 128px; border-radius: 2px; }
+  nav .thumb-missing { height: 72px; padding: 4px; background: #222; color: #999; font-size: 11px; overflow: hidden; }
+  nav span { position: absolute; left: 4px; bottom: 4px; padding: 1px 4px; border-radius: 3px; background: rgba(0, 0, 0, 0.7); color: #fff; font-size: 11px; }
+  body.hide-thumbnails nav, :fullscreen header, :fullscreen nav, :fullscreen #notes { display: none; }
+  :fullscreen main { padding: 0; }
+</style>
+</head>
+<body>
+<header>
+  <span class="title" id="title"></span>
+  <span id="counter"></span>
+  <button id="prev" title="Previous slide (Left)">&larr;</button>
+  <button id="next" title="Next slide (Right)">&rarr;</button>
+  <button id="toggle-notes" title="Speaker notes (N)">Notes</button>
+  <button id="toggle-thumbnails" title="Thumbnails (T)">Thumbnails</button>
+  <button id="fullscreen" title="Fullscreen (F)">Fullscreen</button>
+</header>
+<main id="stage"></main>
+<div id="notes"></div>
+<nav id="thumbnails"></nav>
+<script>
+(function () {
+  var deck = ${deck};
+  var slide = 0;
+  var state = 0;
+  var stage = document.getElementById('stage');
+  var thumbnails = [];
+
+  deck.slides.forEach(function (entry, index) {
+    var button = document.createElement('button');
+    var first = entry.states[0];
+    button.title = entry.title;
+    if (first.src) {
+      var image = document.createElement('img');
+      image.src = first.src;
+      image.alt = '';
+      button.appendChild(image);
+    } else {
+      var missing = document.createElement('div');
+      missing.className = 'thumb-missing';
+      missing.textContent = entry.title;
+      button.appendChild(missing);
+    }
+    var badge = document.createElement('span');
+    badge.textContent = entry.number + (entry.states.length > 1 ? ' (' + entry.states.length + ')' : '');
+    button.appendChild(badge);
+    button.addEventListener('click', function () { show(index, 0); });
+    document.getElementById('thumbnails').appendChild(button);
+    thumbnails.push(button);
+  });
+
+  function show(nextSlide, nextState) {
+    slide = Math.max(0, Math.min(deck.slides.length - 1, nextSlide));
+    var entry = deck.slides[slide];
+    state = Math.max(0, Math.min(entry.states.length - 1, nextState));
+    var current = entry.states[state];
+
+    stage.textContent = '';
+    if (current.src) {
+      var image = document.createElement('img');
+      image.src = current.src;
+      image.alt = current.label;
+      stage.appendChild(image);
+    } else {
+      var missing = document.createElement('div');
+      missing.className = 'missing';
+      missing.textContent = current.label;
+      stage.appendChild(missing);
+    }
+
+    document.getElementById('title').textContent = entry.title;
+    document.getElementById('notes').textContent = current.notes || '';
+    document.getElementById('counter').textContent = (slide + 1) + ' / ' + deck.slides.length
+      + (entry.states.length > 1 ? '  \u00b7  ' + (state + 1) + '/' + entry.states.length : '');
+    thumbnails.forEach(function (button, index) { button.classList.toggle('current', index === slide); });
+    thumbnails[slide].scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    history.replaceState(null, '', '#' + (slide + 1) + (state > 0 ? '.' + (state + 1) : ''));
+  }
+
+  // Every state in order, across slides
+  function step(delta) {
+    if (delta > 0 && state < deck.slides[slide].states.length - 1) show(slide, state + 1);
+    else if (delta > 0 && slide < deck.slides.length - 1) show(slide + 1, 0);
+    else if (delta < 0 && state > 0) show(slide, state - 1);
+    else if (delta < 0 && slide > 0) show(slide - 1, deck.slides[slide - 1].states.length - 1);
+  }
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen();
+  }
+
+  document.addEventListener('keydown', function (event) {
+    if (event.metaKey || event.ctrlKey || event.altKey) return;
+    switch (event.key) {
+      case 'ArrowRight': if (slide < deck.slides.length - 1) show(slide + 1, 0); break;
+      case 'ArrowLeft': if (slide > 0) show(slide - 1, 0); break;
+      case 'ArrowDown': show(slide, state + 1); break;
+      case 'ArrowUp': show(slide, state - 1); break;
+      case ' ': case 'PageDown': step(1); break;
+      case 'PageUp': step(-1); break;
+      case 'Home': show(0, 0); break;
+      case 'End': show(deck.slides.length - 1, 0); break;
+      case 'f': toggleFullscreen(); break;
+      case 'n': document.body.classList.toggle('show-notes'); break;
+      case 't': document.body.classList.toggle('hide-thumbnails'); break;
+      default: return;
+    }
+    event.preventDefault();
+  });
+  document.getElementById('prev').addEventListener('click', function () { show(slide - 1, 0); });
+  document.getElementById('next').addEventListener('click', function () { show(slide + 1, 0); });
+  document.getElementById('toggle-notes').addEventListener('click', function () { document.body.classList.toggle('show-notes'); });
+  document.getElementById('toggle-thumbnails').addEventListener('click', function () { document.body.classList.toggle('hide-thumbnails'); });
+  document.getElementById('fullscreen').addEventListener('click', toggleFullscreen);
+  stage.addEventListener('click', function () { step(1); });
+
+  if (!deck.slides.some(function (entry) { return entry.states.some(function (item) { return item.notes; }); })) {
+    document.getElementById('toggle-notes').style.display = 'none';
+  }
+
+  var match = /^#(\\d+)(?:\\.(\\d+))?$/.exec(location.hash);
+  show(match ? match[1] - 1 : 0, match && match[2] ? match[2] - 1 : 0);
+})();
+</script>
+</body>
+</html>
+`;
+
+  fs.writeFileSync(htmlPath, html);
+  return htmlPath;
+}
+
+// Result of comparing one screenshot with its baseline
+// - changed: more differing pixels than maxDiffRatio, resized: dimensions differ
+// - new: no baseline file, removed: baseline file without a captured state
+interface CompareEntry {
+  name: string;
+  label: string;
+  status: 'unchanged' | 'changed' | 'resized' | 'new' | 'removed';
+  diffRatio: number;
+  baselinePath: string | null;
+  currentPath: string | null;
+  diffPath: string | null;
+}
+
+/**
+ * Resolve --compare <baselineDir>
+ * 
+ * For AI: Comparison works on the PNGs of screenshot mode, so vector mode is
+ * rejected and screenshots are always saved. The baseline can't be the
+ * screenshots folder itself - it would be overwritten before comparing.
+ */
+function resolveCompareDir(config: ExportConfig, renderMode: RenderMode): string | null {
+  const baselineDir = getCliOption('compare');
+  if (!baselineDir) {
+    return null;
+  }
+
+  const resolved = path.resolve(baselineDir);
+  if (renderMode !== 'screenshot') {
+    console.error('❌ --compare needs screenshot render mode');
+    process.exit(EXIT_CODES.usage);
+  }
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    console.error(`❌ Baseline folder not found: ${baselineDir}`);
+    process.exit(EXIT_CODES.usage);
+  }
+  if (resolved === SCREENSHOTS_DIR) {
+    console.error(`❌ The baseline can't be the screenshots folder (${baselineDir}) - copy it somewhere else first`);
+    process.exit(EXIT_CODES.usage);
+  }
+
+  config.saveScreenshots = true;
+  return resolved;
+}
+
+/**
+ * Pixel-diff two PNGs in the browser
+ * 
+ * For AI: Decoding and diffing happen on a canvas in the already running
+ * Chromium, so no image library is needed. Pixels differ when any channel
+ * differs by more than threshold (0-1). The diff image shows the current
+ * capture faded, differing pixels in red and ignored regions in blue.
+ * Returns diffPixels -1 when the dimensions differ (no diff image then).
+ */
+const diffScreenshots = async (
+  page: Page,
+  baseline: Buffer,
+  current: Buffer,
+  options: { threshold: number; regions: IgnoreRegion[] }
+): Promise<{ diffPixels: number; totalPixels: number; diffImage: Buffer | null }> => {
+  const result = await page.evaluate(async (baselineUrl, currentUrl, opts) => {
+    const images = await Promise.all([baselineUrl, currentUrl].map((src) => new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Could not decode screenshot'));
+      image.src = src;
+    })));
+
+    const width = images[1].naturalWidth;
+    const height = images[1].naturalHeight;
+    if (images[0].naturalWidth !== width || images[0].naturalHeight !== height) {
+      return { diffPixels: -1, totalPixels: width * height, diffUrl: null };
     }
-    
-    // Extra wait for typewriter
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-  }
-  
-  // General wait for all animations
-  await waitForAnimation(page, config, 1500);
+
+    const [before, after] = images.map((image) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d')!;
+      context.drawImage(image, 0, 0);
+      return context.getImageData(0, 0, width, height);
+    });
+
+    const limit = opts.threshold * 255;
+    const output = new ImageData(width, height);
+    let diffPixels = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const ignored = opts.regions.some((region) =>
+          x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height);
+        const delta = Math.max(
+          Math.abs(before.data[i] - after.data[i]),
+          Math.abs(before.data[i + 1] - after.data[i + 1]),
+          Math.abs(before.data[i + 2] - after.data[i + 2]),
+          Math.abs(before.data[i + 3] - after.data[i + 3])
+        );
+        const gray = 255 - (255 - (after.data[i] * 0.3 + after.data[i + 1] * 0.59 + after.data[i + 2] * 0.11)) * 0.25;
+
+        if (ignored) {
+          output.data.set([gray * 0.8, gray * 0.85, 255, 255], i);
+        } else if (delta > limit) {
+          diffPixels++;
+          output.data.set([255, 0, 0, 255], i);
+        } else {
+          output.data.set([gray, gray, gray, 255], i);
+        }
+      }
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(output, 0, 0);
+    return { diffPixels, totalPixels: width * height, diffUrl: canvas.toDataURL('image/png') };
+  }, `data:image/png;base64,${baseline.toString('base64')}`, `data:image/png;base64,${current.toString('base64')}`, options);
+
+  return {
+    diffPixels: result.diffPixels,
+    totalPixels: result.totalPixels,
+    diffImage: result.diffUrl ? Buffer.from(result.diffUrl.split(',')[1], 'base64') : null,
+  };
 };
 
 /**
- * Take full page screenshot
+ * Compare captured screenshots with a baseline folder
  * 
- * For AI: This takes a full-page screenshot (not just viewport) using
- * fullPage: true and captureBeyondViewport: true. This ensures we capture
- * all content even if it's longer than the viewport.
+ * For AI: Files are matched by name (slide-7-step-2.png), so a baseline is
+ * simply a copy of an earlier exports/screenshots folder. Diff images go to
+ * <output dir>/compare. Baseline files without a captured state are only
+ * reported as removed when the whole deck was exported (not with --slides).
  */
-const takeScreenshot = async (page: Page, filename: string, slideIndex: number, config: ExportConfig): Promise<Buffer> => {
-  // Set viewport from config
-  await page.setViewport({
-    width: config.viewport.width,
-    height: config.viewport.height,
-  });
+const compareWithBaseline = async (
+  browser: Browser,
+  states: CapturedState[],
+  baselineDir: string,
+  config: ExportConfig,
+  fullExport: boolean
+): Promise<CompareEntry[]> => {
+  const compareDir = resolveVariantDir(path.join(OUTPUT_DIR, 'compare'), config);
+  fs.mkdirSync(compareDir, { recursive: true });
 
-  // Wait for slide content to be fully loaded
-  await waitForSlideContent(page, slideIndex, config);
+  const threshold = config.compare?.threshold ?? 0.1;
+  const maxDiffRatio = config.compare?.maxDiffRatio ?? 0;
+  const entries: CompareEntry[] = [];
+  const page = await browser.newPage();
+  const scale = config.viewport.deviceScaleFactor ?? 1;
 
-  // Take full page screenshot
-  const screenshot = await page.screenshot({
-    type: 'png',
-    fullPage: true,
-    captureBeyondViewport: true,
-  });
+  try {
+    for (const state of states) {
+      if (!state.screenshotPath) continue;
+      const name = path.basename(state.screenshotPath);
+      const baselinePath = path.join(baselineDir, name);
+      const entry: CompareEntry = {
+        name,
+        label: `${formatStateLabel(state)} – ${state.title}`,
+        status: 'new',
+        diffRatio: 1,
+        baselinePath: null,
+        currentPath: state.screenshotPath,
+        diffPath: null,
+      };
+      entries.push(entry);
+      if (!fs.existsSync(baselinePath)) continue;
 
-  return screenshot as Buffer;
+      entry.baselinePath = baselinePath;
+      const regions = [
+        ...(config.compare?.ignoreRegions?.['*'] || []),
+        ...(config.compare?.ignoreRegions?.[state.slideIndex.toString()] || []),
+      ].map((region) => ({ ...region, x: region.x * scale, y: region.y * scale, width: region.width * scale, height: region.height * scale }));
+      const diff = await diffScreenshots(page, fs.readFileSync(baselinePath), fs.readFileSync(state.screenshotPath), { threshold, regions });
+
+      if (diff.diffPixels < 0) {
+        entry.status = 'resized';
+        continue;
+      }
+      entry.diffRatio = diff.diffPixels / diff.totalPixels;
+      entry.status = diff.diffPixels > 0 && entry.diffRatio > maxDiffRatio ? 'changed' : 'unchanged';
+      if (diff.diffImage && diff.diffPixels > 0) {
+        entry.diffPath = path.join(compareDir, `${path.parse(name).name}-diff.png`);
+        fs.writeFileSync(entry.diffPath, diff.diffImage);
+      }
+    }
+  } finally {
+    await page.close();
+  }
+
+  if (fullExport) {
+    const captured = new Set(entries.map((entry) => entry.name));
+    fs.readdirSync(baselineDir)
+      .filter((name) => Object.values(IMAGE_EXTENSIONS).includes(path.extname(name)) && !captured.has(name))
+      .sort()
+      .forEach((name) => entries.push({
+        name,
+        label: name,
+        status: 'removed',
+        diffRatio: 1,
+        baselinePath: path.join(baselineDir, name),
+        currentPath: null,
+        diffPath: null,
+      }));
+  }
+
+  return entries;
 };
 
 /**
- * Convert PNG screenshot to PDF page
+ * Escape text for the HTML report
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Write a self-contained HTML report of a comparison
  * 
- * For AI: This creates a PDF page with the exact dimensions of the screenshot.
- * We don't force A4 format - instead we use the screenshot dimensions to ensure
- * nothing gets cut off. This is important for presentations with varying slide heights.
+ * For AI: Images are embedded as data URLs so the report can be uploaded as a
+ * single CI artifact. Only states that differ get images (baseline/current/diff)
+ * - unchanged states are listed in the table to keep the file small.
  */
-const convertImageToPDF = async (imageBuffer: Buffer): Promise<PDFDocument> => {
-  const pdfDoc = await PDFDocument.create();
-  
-  // Load PNG image
-  const image = await pdfDoc.embedPng(imageBuffer);
-  
-  // Get image dimensions
-  const imageDims = image.scale(1);
-  
-  // Use screenshot dimensions (not fixed A4) to prevent cut-off
-  const pageWidth = imageDims.width;
-  const pageHeight = imageDims.height;
-  
-  // Add page with image dimensions
-  const page = pdfDoc.addPage([pageWidth, pageHeight]);
-  page.drawImage(image, {
-    x: 0,
-    y: 0,
-    width: imageDims.width,
-    height: imageDims.height,
-  });
-  
-  return pdfDoc;
-};
+function writeCompareReport(entries: CompareEntry[], baselineDir: string, config: ExportConfig): string {
+  const reportPath = path.join(resolveVariantDir(path.join(OUTPUT_DIR, 'compare'), config), 'report.html');
+  const embed = (file: string | null) => file
+    ? `<img src="data:${MIME_TYPES[path.extname(file)]};base64,${fs.readFileSync(file).toString('base64')}" alt="">`
+    : '<div class="missing">–</div>';
+
+  const rows = entries.map((entry) => `
+    <tr class="${entry.status}">
+      <td>${escapeHtml(entry.label)}</td>
+      <td><span class="badge">${entry.status}</span></td>
+      <td>${entry.status === 'unchanged' || entry.status === 'changed' ? `${(entry.diffRatio * 100).toFixed(3)}%` : ''}</td>
+    </tr>`).join('');
+
+  const details = entries.filter((entry) => entry.status !== 'unchanged').map((entry) => `
+    <section class="${entry.status}">
+      <h2>${escapeHtml(entry.label)} <span class="badge">${entry.status}</span></h2>
+      <div class="images">
+        <figure>${embed(entry.baselinePath)}<figcaption>Baseline</figcaption></figure>
+        <figure>${embed(entry.currentPath)}<figcaption>Current</figcaption></figure>
+        <figure>${embed(entry.diffPath)}<figcaption>Diff</figcaption></figure>
+      </div>
+    </section>`).join('');
+
+  const count = (status: CompareEntry['status']) => entries.filter((entry) => entry.status === status).length;
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Visual comparison</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2933; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  td { padding: 0.25rem 1rem; border-bottom: 1px solid #e4e7eb; }
+  .badge { font-size: 0.75rem; padding: 0.1rem 0.5rem; border-radius: 1rem; background: #e4e7eb; }
+  .changed .badge, .resized .badge, .removed .badge { background: #f8d7da; color: #842029; }
+  .new .badge { background: #cff4fc; color: #055160; }
+  .unchanged .badge { background: #d1e7dd; color: #0f5132; }
+  .images { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+  figure { margin: 0; }
+  img { width: 100%; border: 1px solid #cbd2d9; }
+  figcaption { font-size: 0.85rem; color: #616e7c; }
+  .missing { display: flex; align-items: center; justify-content: center; aspect-ratio: 16 / 9; border: 1px dashed #cbd2d9; color: #9aa5b1; }
+</style>
+</head>
+<body>
+<h1>Visual comparison</h1>
+<p>Baseline: ${escapeHtml(baselineDir)} · ${new Date().toLocaleString()}</p>
+<p>${count('unchanged')} unchanged · ${count('changed')} changed · ${count('resized')} resized · ${count('new')} new · ${count('removed')} removed</p>
+<table>${rows}
+</table>
+${details}
+</body>
+</html>
+`;
+
+  fs.writeFileSync(reportPath, html);
+  return reportPath;
+}
 
 /**
  * Check if dev server is running
@@ -336,6 +5773,266 @@ async function checkDevServer(url: string): Promise<boolean> {
   });
 }
 
+// A server the exporter talks to - stop() is a no-op for external servers
+interface ManagedServer {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+// MIME types for the built-in static server (Vite build output)
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Wait until a server responds with 200
+ */
+async function waitForServer(url: string, timeout: number): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    if (await checkDevServer(url)) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  return false;
+}
+
+/**
+ * Stop a spawned server process including its children
+ * 
+ * For AI: "npm run dev" spawns a shell, npm and then vite - killing only the
+ * top process leaves vite running. On macOS/Linux the server runs in its own
+ * process group (detached), so we signal the whole group. Windows uses taskkill /T.
+ */
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (!child.pid || child.exitCode !== null) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      spawnSync('taskkill', ['/pid', child.pid.toString(), '/T', '/F']);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch (e) {
+    // Already gone
+  }
+}
+
+/**
+ * Start the project's dev server
+ * 
+ * For AI: If something already answers on devServerUrl we reuse it and leave it
+ * running. Otherwise we spawn server.command (default "npm run dev"), wait for
+ * devServerUrl to respond, and stop the process tree afterwards. The last output
+ * lines are kept so a failing dev server can be debugged from the error message.
+ * An exit hook makes sure the server doesn't outlive a crashed export.
+ */
+async function startDevServer(config: ExportConfig): Promise<ManagedServer> {
+  const url = config.devServerUrl;
+  if (await checkDevServer(url)) {
+    console.log('✅ Dev server is already running, reusing it\n');
+    return { url, stop: async () => {} };
+  }
+
+  const command = config.server?.command || 'npm run dev';
+  console.log(`🛠️  Starting dev server: ${command}`);
+
+  const child = spawn(command, {
+    cwd: process.cwd(),
+    shell: true,
+    detached: process.platform !== 'win32',
+    stdio: ['ignore', 'pipe', 'pipe'],
+    env: { ...process.env, BROWSER: 'none' },
+  });
+
+  const output: string[] = [];
+  const collectOutput = (data: Buffer) => {
+    output.push(...data.toString().split('\n').filter(Boolean));
+    output.splice(0, Math.max(output.length - 20, 0));
+  };
+  child.stdout?.on('data', collectOutput);
+  child.stderr?.on('data', collectOutput);
+
+  const exitHook = () => killProcessTree(child, 'SIGKILL');
+  process.on('exit', exitHook);
+
+  const ready = await Promise.race([
+    waitForServer(url, config.server?.readyTimeout || 60000),
+    new Promise<boolean>((resolve) => child.once('exit', () => resolve(false))),
+  ]);
+
+  if (!ready) {
+    killProcessTree(child);
+    console.error(`❌ Dev server did not respond at ${url}`);
+    if (output.length > 0) {
+      console.error('   Last output:');
+      output.forEach((line) => console.error(`   ${line}`));
+    }
+    process.exit(EXIT_CODES.server);
+  }
+  console.log(`✅ Dev server is running at ${url}\n`);
+
+  return {
+    url,
+    stop: async () => {
+      if (child.exitCode !== null) return;
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      killProcessTree(child);
+      const timeout = setTimeout(() => killProcessTree(child, 'SIGKILL'), 5000);
+      await exited;
+      clearTimeout(timeout);
+      process.removeListener('exit', exitHook);
+      console.log('🛑 Dev server stopped');
+    },
+  };
+}
+
+/**
+ * Serve a built presentation with a built-in static file server
+ * 
+ * For AI: This makes export work without a dev server (e.g. in CI after
+ * "npm run build"). It serves server.staticDir (default: dist or build),
+ * falls back to index.html for client-side routes (SPA), and blocks paths
+ * outside the folder. The path of devServerUrl is kept, so decks served under
+ * a sub-path still work - it's the build's base path (Vite "base"), so it is
+ * stripped from requests before looking up files. Malformed URLs get a 400.
+ */
+async function startStaticServer(config: ExportConfig): Promise<ManagedServer> {
+  if (config.server?.buildCommand) {
+    console.log(`🛠️  Building: ${config.server.buildCommand}`);
+    execSync(config.server.buildCommand, { cwd: process.cwd(), stdio: 'inherit' });
+  }
+
+  const candidates = config.server?.staticDir ? [config.server.staticDir] : ['dist', 'build'];
+  const rootDir = candidates
+    .map((dir) => path.resolve(process.cwd(), dir))
+    .find((dir) => fs.existsSync(path.join(dir, 'index.html')));
+
+  if (!rootDir) {
+    console.error(`❌ No built presentation found (looked for index.html in: ${candidates.join(', ')})`);
+    console.error('   Please run: npm run build');
+    console.error('   Or set server.buildCommand in pdf-export.config.json');
+    process.exit(EXIT_CODES.server);
+  }
+
+  const basePath = new URL(config.devServerUrl).pathname.replace(/\/+$/, '');
+  const server = http.createServer((req, res) => {
+    let requestPath: string;
+    try {
+      requestPath = decodeURIComponent((req.url || '/').split('?')[0]);
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+    if (basePath && (requestPath === basePath || requestPath.startsWith(`${basePath}/`))) {
+      requestPath = requestPath.slice(basePath.length) || '/';
+    }
+    let filePath = path.join(rootDir, requestPath);
+
+    // Block path traversal
+    if (filePath !== rootDir && !filePath.startsWith(rootDir + path.sep)) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+      filePath = path.join(filePath, 'index.html');
+    }
+    if (!fs.existsSync(filePath)) {
+      // SPA fallback for routes, 404 for missing assets
+      if (path.extname(requestPath)) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      filePath = path.join(rootDir, 'index.html');
+    }
+
+    res.writeHead(200, {
+      'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+    });
+    fs.createReadStream(filePath).pipe(res);
+  });
+
+  const port = await new Promise<number>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.server?.port || 0, '127.0.0.1', () => {
+      const address = server.address();
+      resolve(typeof address === 'object' && address ? address.port : 0);
+    });
+  });
+
+  const url = `http://127.0.0.1:${port}${new URL(config.devServerUrl).pathname}`;
+  console.log(`✅ Serving ${path.relative(process.cwd(), rootDir) || '.'} at ${url}\n`);
+
+  return {
+    url,
+    stop: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Start or check the server for the presentation
+ * 
+ * For AI: Mode comes from --server=dev|static|external or server.mode in config.
+ * "external" is the old behavior - the user runs npm run dev in another terminal.
+ */
+async function startServer(config: ExportConfig): Promise<ManagedServer> {
+  const mode = getCliOption('server') || config.server?.mode || 'external';
+
+  if (mode === 'dev') {
+    return startDevServer(config);
+  }
+  if (mode === 'static') {
+    return startStaticServer(config);
+  }
+  if (mode !== 'external') {
+    console.error(`❌ Invalid server mode: ${mode}`);
+    console.error('   Expected one of: external, dev, static');
+    process.exit(EXIT_CODES.usage);
+  }
+
+  // Check if dev server is running
+  console.log('🔍 Checking if dev server is running...');
+  const serverRunning = await checkDevServer(config.devServerUrl);
+  if (!serverRunning) {
+    console.error('❌ Dev server is not running!');
+    console.error(`   Expected URL: ${config.devServerUrl}`);
+    console.error('   Please run: npm run dev');
+    console.error('   Then in another terminal run: npm run export:pdf');
+    console.error('   Or let the exporter start it: npm run export:pdf -- --server=dev');
+    process.exit(EXIT_CODES.server);
+  }
+  console.log('✅ Dev server is running\n');
+
+  return { url: config.devServerUrl, stop: async () => {} };
+}
+
 /**
  * Find Chrome executable path
  * 
@@ -371,6 +6068,29 @@ function findChromeExecutable(): string | undefined {
   return undefined;
 }
 
+/**
+ * Launch Chrome (also used to relaunch it after a crash)
+ */
+const launchBrowser = async (): Promise<Browser> => {
+  const executablePath = findChromeExecutable();
+  if (executablePath) {
+    console.log(`   Using Chrome: ${executablePath}`);
+  }
+
+  return puppeteer.launch({
+    headless: !hasCliFlag('headful'),
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+      '--disable-software-rasterizer',
+    ],
+    executablePath,
+    timeout: 60000, // Increased timeout for slow systems
+  });
+};
+
 /**
  * Main export function
  * 
@@ -386,189 +6106,261 @@ function findChromeExecutable(): string | undefined {
  * Error handling is comprehensive to help users debug issues.
  */
 async function exportPresentationToPDF() {
-  console.log('🚀 Starting PDF export (screenshot-based)...\n');
+  // Load configuration (CLI options override config values)
+  validateCliArgs();
+  const config = await loadConfig();
+  applyCliOverrides(config);
+  const renderMode = resolveRenderMode(config);
+  const formats = resolveOutputFormats(config, renderMode);
+  const discover = config.discovery?.enabled || hasCliFlag('discover');
+  const baselineDir = resolveCompareDir(config, renderMode);
+
+  // Check --slides early - with discovery the slide count is only known later
+  let slideIndices = discover ? [] : resolveSlideSelection(config);
 
-  // Load configuration
-  const config = loadConfig();
+  console.log(`🚀 Starting PDF export (${renderMode === 'vector' ? 'vector' : 'screenshot-based'})...\n`);
   console.log(`📋 Configuration loaded: ${config.totalSlides} slides\n`);
 
-  // Check if dev server is running
-  console.log('🔍 Checking if dev server is running...');
-  const serverRunning = await checkDevServer(config.devServerUrl);
-  if (!serverRunning) {
-    console.error('❌ Dev server is not running!');
-    console.error(`   Expected URL: ${config.devServerUrl}`);
-    console.error('   Please run: npm run dev');
-    console.error('   Then in another terminal run: npm run export:pdf');
-    process.exit(1);
-  }
-  console.log('✅ Dev server is running\n');
+  // Start (or check) the server
+  const server = await startServer(config);
 
   // Create output directories
   if (!fs.existsSync(OUTPUT_DIR)) {
     fs.mkdirSync(OUTPUT_DIR, { recursive: true });
   }
-  if (!fs.existsSync(SCREENSHOTS_DIR)) {
-    fs.mkdirSync(SCREENSHOTS_DIR, { recursive: true });
-  }
 
-  // Launch browser
+  // Launch browser (shared by all variants)
   console.log('🌐 Launching browser...');
-  
-  const executablePath = findChromeExecutable();
-  if (executablePath) {
-    console.log(`   Using Chrome: ${executablePath}`);
-  }
-  
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-gpu',
-      '--disable-software-rasterizer',
-    ],
-    executablePath,
-    timeout: 60000, // Increased timeout for slow systems
-  });
-
-  const page = await browser.newPage();
-  
-  // Set longer timeout for page operations (handles slow animations)
-  page.setDefaultTimeout(60000);
-  page.setDefaultNavigationTimeout(60000);
-  
-  // Set viewport from config
-  await page.setViewport({
-    width: config.viewport.width,
-    height: config.viewport.height,
-  });
+  const session: BrowserSession = { browser: await launchBrowser(), launch: launchBrowser };
+  const variants = resolveVariants(config);
+  const failedVariants: string[] = [];
+  const regressedVariants: string[] = [];
+  let checkpoint: Checkpoint | null = null;
 
   try {
-    // Navigate to presentation
-    console.log(`🌐 Navigating to ${config.devServerUrl}...`);
-    await page.goto(config.devServerUrl, {
-      waitUntil: 'networkidle0',
-      timeout: 30000,
-    });
-
-    // Wait for React to load
-    try {
-      await page.waitForSelector(config.selectors.progressBar, { timeout: 10000 });
-    } catch (e) {
-      console.warn('⚠️  Progress bar not found, continuing anyway...');
-    }
-    await waitForAnimation(page, config, 1000);
+    for (const [variantIndex, variant] of variants.entries()) {
+      const variantConfig = applyVariant(config, variant);
+      const url = resolveVariantUrl(server.url, variantConfig);
+      const screenshotsDir = resolveVariantDir(SCREENSHOTS_DIR, variantConfig);
+      if (variant) {
+        console.log(`\n🎨 Variant ${variantIndex + 1}/${variants.length}: ${variant.name}\n`);
+      }
+      if (variantConfig.saveScreenshots !== false && !fs.existsSync(screenshotsDir)) {
+        fs.mkdirSync(screenshotsDir, { recursive: true });
+      }
 
-    console.log('✅ Presentation loaded\n');
+      // Variants get a fresh browser context - localStorage of one doesn't leak into the next
+      const context = variant ? await session.browser.createBrowserContext() : null;
 
-    // Create merged PDF document
-    const mergedPdf = await PDFDocument.create();
-    const screenshotFiles: string[] = [];
-    let totalPages = 0;
+      try {
+        // Navigate to presentation
+        console.log(`🌐 Navigating to ${url}...`);
+        const page = await openPresentationPage(context ?? session.browser, url, variantConfig, renderMode);
 
-    // Export each slide
-    for (let slideIndex = 0; slideIndex < config.totalSlides; slideIndex++) {
-      console.log(`📄 Exporting slide ${slideIndex + 1}/${config.totalSlides}...`);
+        console.log('✅ Presentation loaded\n');
 
-      // Navigate to slide
-      await navigateToSlide(page, slideIndex, config);
+        // Auto-discover slide structure instead of trusting slidesWithSubSlides (once, on the first variant)
+        if (discover && variantIndex === 0) {
+          console.log('🔎 Discovering slides and sub-slides...');
+          const structure = await discoverSlideStructure(page, variantConfig);
 
-      // Check if this slide has sub-slides
-      const subSlideConfig = config.slidesWithSubSlides[slideIndex.toString()];
+          console.log(`✅ Discovered ${structure.totalSlides} slides`);
+          Object.entries(structure.slidesWithSubSlides).forEach(([index, slideConfig]) => {
+            console.log(`   Slide ${parseInt(index) + 1}: ${slideConfig.comment}`);
+          });
 
-      if (subSlideConfig) {
-        const { type, max } = subSlideConfig;
-        const startIndex = type === 'subSlide' ? 0 : 1;
-        const endIndex = type === 'subSlide' ? max : max;
+          if ((config.discovery?.writeConfig || hasCliFlag('write-config')) && !IS_JSON_CONFIG) {
+            console.warn(`⚠️  Can't write the structure into ${path.basename(CONFIG_FILE)} - copy it from the output above`);
+          } else if (config.discovery?.writeConfig || hasCliFlag('write-config')) {
+            writeDiscoveredStructure(structure);
+            console.log(`💾 Structure written to: ${path.basename(CONFIG_FILE)}`);
+          }
+          console.log('');
 
-        console.log(`   └─ Found ${endIndex - startIndex + 1} ${type === 'subSlide' ? 'sub-slides' : 'steps'}`);
+          // The rest of the export uses the discovered structure
+          Object.assign(config, structure);
+          Object.assign(variantConfig, structure);
+          slideIndices = resolveSlideSelection(config);
+        }
 
-        // Export each sub-slide
-        for (let subIndex = startIndex; subIndex <= endIndex; subIndex++) {
-          // Navigate to specific sub-slide if not at start
-          if (subIndex > startIndex) {
-            await navigateSubSlide(page, 'down', config);
+        // Capture selected slides (in parallel with concurrency > 1)
+        if (slideIndices.length < config.totalSlides) {
+          console.log(`🎯 Exporting ${slideIndices.length} of ${config.totalSlides} slides\n`);
+        }
+        const concurrency = resolveConcurrency(variantConfig, slideIndices.length);
+        if (concurrency > 1) {
+          console.log(`⚡ Capturing with ${concurrency} pages in parallel\n`);
+        }
+        const report: NavigationReport = { verified: 0, entries: [] };
+        const cache = loadExportCache(variantConfig, renderMode);
+        checkpoint = loadCheckpoint(variantConfig, renderMode);
+        const capturedStates = await captureSlides(session, page, url, variantConfig, renderMode, slideIndices, concurrency, report, cache, checkpoint);
+        if (cache) {
+          saveExportCache(cache);
+          if (cache.hits > 0) {
+            console.log(`\n♻️  Reused ${cache.hits} unchanged state(s) from the cache, captured ${cache.misses} (--force to capture all)`);
           }
+        }
+        reportNavigation(report, variantConfig);
+        reportQuality(capturedStates, variantConfig);
+
+        // Create merged PDF document (always in slide order)
+        const mergedPdf = await PDFDocument.create();
+        await mergeCapturedStates(mergedPdf, capturedStates);
+
+        // Cover, inserted PDFs, header/footer and watermark (shifts pageIndex of later states)
+        const extraPages = await applyStamps(mergedPdf, capturedStates, variantConfig);
+
+        // Bookmarks, page labels and metadata
+        if (config.outline !== false && capturedStates.length > 0) {
+          addOutline(mergedPdf, capturedStates);
+          addPageLabels(mergedPdf, capturedStates, extraPages);
+        }
+        applyMetadata(mergedPdf, capturedStates, variantConfig);
+        if (config.notes?.pdfAnnotations) {
+          addNotesAnnotations(mergedPdf, capturedStates);
+        }
+
+        // Save merged PDF (a tall capture may span several pages with fit "fitWidth")
+        const totalPages = mergedPdf.getPageCount();
+        const outputFiles: string[] = [];
+        if (formats.includes('pdf')) {
+          console.log(`\n💾 Saving PDF (${totalPages} pages)...`);
+          const pdfBytes = config.image?.maxSizeMB && renderMode === 'screenshot'
+            ? await fitPdfToSize(session.browser, mergedPdf, capturedStates, variantConfig)
+            : await mergedPdf.save();
+          fs.writeFileSync(resolveOutputPath('pdf', variantConfig), pdfBytes);
+          outputFiles.push(resolveOutputPath('pdf', variantConfig));
+          reportPdfSize(mergedPdf, capturedStates, pdfBytes.length, variantConfig);
+        }
+
+        // Other formats are built from the same captured states
+        if (formats.includes('pptx')) {
+          console.log(`\n💾 Saving PPTX (${capturedStates.length} slides)...`);
+          fs.writeFileSync(resolveOutputPath('pptx', variantConfig), createPptx(capturedStates, variantConfig));
+          outputFiles.push(resolveOutputPath('pptx', variantConfig));
+        }
+        if (formats.includes('notes')) {
+          console.log(`\n💾 Saving notes pages (${capturedStates.length} states)...`);
+          const notesPdf = await createNotesPdf(capturedStates, variantConfig);
+          fs.writeFileSync(resolveOutputPath('notes', variantConfig), await notesPdf.save());
+          outputFiles.push(resolveOutputPath('notes', variantConfig));
+        }
+        if (formats.includes('handout')) {
+          console.log(`\n💾 Saving handout (${config.handout?.perPage ?? 6} per page)...`);
+          const handoutPdf = await createHandoutPdf(capturedStates, variantConfig);
+          fs.writeFileSync(resolveOutputPath('handout', variantConfig), await handoutPdf.save());
+          outputFiles.push(resolveOutputPath('handout', variantConfig));
+        }
+        if (formats.includes('html')) {
+          console.log(`\n💾 Saving HTML viewer (${capturedStates.length} states)...`);
+          outputFiles.push(writeHtmlViewer(capturedStates, variantConfig));
+        }
+
+        // Keep the checkpoint while slides are missing, so --resume only retries those
+        const placeholders = capturedStates.filter((state) => state.placeholder);
+        if (placeholders.length === 0) {
+          clearCheckpoint(checkpoint);
+        }
+
+        console.log(placeholders.length > 0
+          ? `\n⚠️  Exported with ${placeholders.length} placeholder page(s)`
+          : `\n✅ Exported successfully!`);
+        outputFiles.forEach((file) => console.log(`📁 Location: ${file}`));
+        console.log(`📊 Total pages: ${totalPages}`);
+        if (capturedStates.some((state) => state.screenshotPath)) {
+          console.log(`📸 Screenshots saved in: ${screenshotsDir}`);
+        }
 
-          // Hide UI and take screenshot
-          await hideUIElements(page, config);
-          const filename = `slide-${slideIndex + 1}-${type}-${subIndex + (type === 'step' ? 0 : 1)}.png`;
-          const filepath = path.join(SCREENSHOTS_DIR, filename);
-          
-          const screenshot = await takeScreenshot(page, filename, slideIndex, config);
-          fs.writeFileSync(filepath, screenshot);
-          screenshotFiles.push(filepath);
-
-          // Convert to PDF and add to merged PDF
-          const pdfDoc = await convertImageToPDF(screenshot);
-          const pages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
-          pages.forEach((page) => mergedPdf.addPage(page));
-          totalPages++;
-
-          const displayIndex = type === 'step' ? subIndex : subIndex + 1;
-          console.log(`      ✓ Exported ${type} ${displayIndex}`);
+        // Other variants are still exported - the failure is reported at the end
+        if (placeholders.length > 0) {
+          const slides = placeholders.map((state) => state.slideIndex + 1).join(', ');
+          failedVariants.push(variant ? `${variant.name}: slide(s) ${slides}` : `Slide(s) ${slides}`);
         }
 
-        // Reset to first sub-slide for next main slide
-        if (type === 'subSlide') {
-          for (let i = 0; i < endIndex; i++) {
-            await navigateSubSlide(page, 'up', config);
+        await config.hooks?.afterExport?.({
+          outputFile: outputFiles[0],
+          outputFiles,
+          pageCount: totalPages,
+          states: capturedStates.map(({ pdfDoc, ...state }) => state),
+          partial: placeholders.length > 0,
+        }, variantConfig);
+
+        // Visual regression check against the baseline screenshots
+        if (baselineDir) {
+          const variantBaselineDir = resolveVariantDir(baselineDir, variantConfig);
+          console.log(`\n🔬 Comparing with baseline: ${path.relative(process.cwd(), variantBaselineDir) || '.'}`);
+          if (!fs.existsSync(variantBaselineDir)) {
+            console.log('   🆕 No baseline for this variant yet');
+            continue;
           }
-        } else {
-          // For steps, cycle back to step 1
-          await navigateSubSlide(page, 'down', config);
+          // Placeholder pages have no screenshot - their baseline files aren't reported as removed
+          const fullExport = slideIndices.length === config.totalSlides && placeholders.length === 0;
+          const entries = await compareWithBaseline(session.browser, capturedStates, variantBaselineDir, variantConfig, fullExport);
+          entries.filter((entry) => entry.status !== 'unchanged').forEach((entry) => {
+            const detail = entry.status === 'changed' ? ` (${(entry.diffRatio * 100).toFixed(3)}% of pixels)` : '';
+            console.log(`   ${entry.status === 'new' ? '🆕' : '❗'} ${entry.label}: ${entry.status}${detail}`);
+          });
+          const reportPath = writeCompareReport(entries, variantBaselineDir, variantConfig);
+          const regressions = entries.filter((entry) => ['changed', 'resized', 'removed'].includes(entry.status));
+          console.log(`📋 Report: ${reportPath}`);
+
+          if (regressions.length > 0) {
+            regressedVariants.push(variant ? `${variant.name}: ${regressions.length}` : `${regressions.length}`);
+            continue;
+          }
+          console.log('✅ No visual changes');
         }
-      } else {
-        // No sub-slides, export directly
-        await hideUIElements(page, config);
-        const filename = `slide-${slideIndex + 1}.png`;
-        const filepath = path.join(SCREENSHOTS_DIR, filename);
-        
-        const screenshot = await takeScreenshot(page, filename, slideIndex, config);
-        fs.writeFileSync(filepath, screenshot);
-        screenshotFiles.push(filepath);
-
-        // Convert to PDF and add to merged PDF
-        const pdfDoc = await convertImageToPDF(screenshot);
-        const pages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
-        pages.forEach((page) => mergedPdf.addPage(page));
-        totalPages++;
-        console.log(`   ✓ Exported`);
-      }
-    }
-
-    // Save merged PDF
-    console.log(`\n💾 Saving PDF (${totalPages} pages)...`);
-    const pdfBytes = await mergedPdf.save();
-    fs.writeFileSync(OUTPUT_FILE, pdfBytes);
-
-    console.log(`\n✅ PDF exported successfully!`);
-    console.log(`📁 Location: ${OUTPUT_FILE}`);
-    console.log(`📊 Total pages: ${totalPages}`);
-    console.log(`📸 Screenshots saved in: ${SCREENSHOTS_DIR}`);
+      } finally {
+        await context?.close().catch(() => {});
+      }
+    }
+
+    if (failedVariants.length > 0) {
+      throw new ExportError(
+        `${failedVariants.join('; ')} failed - run again with --resume to retry only those`,
+        EXIT_CODES.partial
+      );
+    }
+    if (regressedVariants.length > 0) {
+      throw new ExportError(`${regressedVariants.join('; ')} state(s) differ from the baseline (PDF was written)`, EXIT_CODES.regression);
+    }
 
   } catch (error) {
     console.error('❌ Error during export:', error);
+    const partial = error instanceof ExportError && error.exitCode === EXIT_CODES.partial;
+    if (checkpoint && !partial && Object.keys(checkpoint.slides).length > 0) {
+      console.error(`💡 ${Object.keys(checkpoint.slides).length} completed slide(s) are checkpointed - continue with --resume`);
+    }
     throw error;
   } finally {
-    await browser.close();
+    await session.browser.close().catch(() => {});
+    await server.stop();
   }
 }
 
 // Run export
 if (require.main === module) {
+  if (hasCliFlag('help')) {
+    printUsage();
+    process.exit(EXIT_CODES.success);
+  }
+  if (hasCliFlag('print-schema')) {
+    console.log(JSON.stringify(CONFIG_SCHEMA, null, 2));
+    process.exit(EXIT_CODES.success);
+  }
+
   exportPresentationToPDF()
     .then(() => {
       console.log('\n🎉 Export completed!');
-      process.exit(0);
+      process.exit(EXIT_CODES.success);
     })
     .catch((error) => {
       console.error('\n💥 Export failed:', error);
-      process.exit(1);
+      process.exit(error instanceof ExportError ? error.exitCode : EXIT_CODES.error);
     });
 }
 
-export { exportPresentationToPDF };
+export { exportPresentationToPDF, defineConfig, DEFAULT_HOOKS };
+export type { ExportConfig, ExportHooks, HookContext, ExportResult, SubState };
 
@@ -5,7 +5,7 @@
  * 1. Scans the repository to detect slide structure
  * 2. Asks user for configuration
  * 3. Generates pdf-export.config.json
- * 4. Copies export script to project
+ * 4. Copies export script (and config JSON Schema) to project
  * 5. Updates package.json with export script
  * 6. Installs dependencies
  * 
@@ -29,11 +29,18 @@ interface SlideConfig {
 }
 
 interface ExportConfig {
+  $schema: string;
+  version: number;
   devServerUrl: string;
   totalSlides: number;
   slidesWithSubSlides: Record<string, SlideConfig>;
   pdfFormat: string;
   landscape: boolean;
+  customWidth?: number;
+  customHeight?: number;
+  renderMode: 'screenshot' | 'vector';
+  slideTitles?: string[];
+  slideNotes?: string[];
   hideUIElements: boolean;
   animationWaitTime: number;
   slideTransitionWaitTime: number;
@@ -76,6 +83,8 @@ try {
 const CONFIG_FILE = path.join(PROJECT_ROOT, 'pdf-export.config.json');
 const EXPORT_SCRIPT_SOURCE = path.join(TOOL_DIR, 'export-to-pdf.ts');
 const EXPORT_SCRIPT_DEST = path.join(PROJECT_ROOT, 'export-to-pdf.ts');
+const SCHEMA_SOURCE = path.join(TOOL_DIR, 'config.schema.json');
+const SCHEMA_DEST = path.join(PROJECT_ROOT, 'pdf-export.config.schema.json');
 
 // Create readline interface for user input
 const rl = readline.createInterface({
@@ -94,6 +103,8 @@ function question(query: string): Promise<string> {
 function scanRepository(): {
   totalSlides: number;
   slidesWithSubSlides: Record<string, SlideConfig>;
+  slideTitles: string[];
+  slideNotes: string[];
   devServerUrl: string;
 } {
   console.log('🔍 Scanning repository...\n');
@@ -126,6 +137,8 @@ function scanRepository(): {
   // Detect total slides - look for "const slides = [" pattern
   const slidesMatch = appContent.match(/const\s+slides\s*=\s*\[([\s\S]*?)\];/);
   let totalSlides = 0;
+  let slideTitles: string[] = [];
+  let slideNotes: string[] = [];
   
   if (slidesMatch) {
     // Count slide objects in array
@@ -133,6 +146,32 @@ function scanRepository(): {
     const slideMatches = slidesContent.match(/\{[^}]*id\s*:\s*\d+[^}]*\}/g);
     totalSlides = slideMatches ? slideMatches.length : 0;
     console.log(`✅ Detected ${totalSlides} slides in slides array`);
+
+    // Detect slide titles - pattern: title: 'Intro' (used for PDF bookmarks)
+    if (slideMatches) {
+      slideTitles = slideMatches.map((slide) => {
+        const titleMatch = slide.match(/title\s*:\s*(['"`])(.*?)\1/);
+        return titleMatch ? titleMatch[2] : '';
+      });
+      const titleCount = slideTitles.filter(Boolean).length;
+      if (titleCount > 0) {
+        console.log(`✅ Detected ${titleCount} slide titles`);
+      } else {
+        slideTitles = [];
+      }
+
+      // Detect speaker notes - pattern: notes: 'Say hello' (multi-line template literals too)
+      slideNotes = slideMatches.map((slide) => {
+        const notesMatch = slide.match(/notes\s*:\s*(['"`])([\s\S]*?)(?<!\\)\1/);
+        return notesMatch ? notesMatch[2].replace(/\\n/g, '\n').replace(/\\(['"`])/g, '$1').trim() : '';
+      });
+      const notesCount = slideNotes.filter(Boolean).length;
+      if (notesCount > 0) {
+        console.log(`✅ Detected speaker notes for ${notesCount} slides`);
+      } else {
+        slideNotes = [];
+      }
+    }
   } else {
     console.log('⚠️  Could not auto-detect slides. You will need to enter manually.');
   }
@@ -245,6 +284,8 @@ function scanRepository(): {
   return {
     totalSlides,
     slidesWithSubSlides,
+    slideTitles,
+    slideNotes,
     devServerUrl,
   };
 }
@@ -292,14 +333,28 @@ async function install() {
 
   // PDF format
   const pdfFormat = await question(
-    'PDF format (A4/Letter/Custom) [A4]: '
+    'PDF format (A4/Letter/Custom/Screenshot) [A4]: '
   ) || 'A4';
 
+  // Custom page size (in PDF points, 72 per inch)
+  let customWidth: number | undefined;
+  let customHeight: number | undefined;
+  if (pdfFormat.toLowerCase() === 'custom') {
+    customWidth = parseFloat(await question('Custom page width in points [1920]: ') || '1920');
+    customHeight = parseFloat(await question('Custom page height in points [1080]: ') || '1080');
+  }
+
   const landscapeInput = await question(
     'Landscape orientation? (y/n) [y]: '
   ) || 'y';
   const landscape = landscapeInput.toLowerCase() === 'y';
 
+  // Render mode
+  const renderModeInput = await question(
+    'Render mode - screenshot (pixel-perfect) or vector (selectable text) [screenshot]: '
+  ) || 'screenshot';
+  const renderMode = renderModeInput.toLowerCase() === 'vector' ? 'vector' : 'screenshot';
+
   // Hide UI elements
   const hideUIInput = await question(
     'Hide UI elements (header, nav, progress bar) in PDF? (y/n) [y]: '
@@ -308,11 +363,20 @@ async function install() {
 
   // Build configuration
   const config: ExportConfig = {
+    // JSON Schema for editor autocompletion, version for automatic migrations
+    $schema: `./${path.basename(SCHEMA_DEST)}`,
+    version: 1,
     devServerUrl,
     totalSlides,
     slidesWithSubSlides,
     pdfFormat,
     landscape,
+    ...(customWidth && customHeight ? { customWidth, customHeight } : {}),
+    renderMode,
+    // Slide titles for PDF bookmarks (empty entries fall back to the first heading on the slide)
+    ...(detected.slideTitles.length > 0 ? { slideTitles: detected.slideTitles } : {}),
+    // Speaker notes for PPTX, the HTML viewer and notes pages (data-notes in the DOM wins)
+    ...(detected.slideNotes.length > 0 ? { slideNotes: detected.slideNotes } : {}),
     hideUIElements,
     animationWaitTime: 2000,
     slideTransitionWaitTime: 1000,
@@ -366,6 +430,12 @@ async function install() {
     console.log(`✅ Export script copied to: ${path.relative(PROJECT_ROOT, EXPORT_SCRIPT_DEST)}`);
   }
 
+  // Copy config schema (always overwritten - it must match the export script)
+  if (fs.existsSync(SCHEMA_SOURCE)) {
+    fs.copyFileSync(SCHEMA_SOURCE, SCHEMA_DEST);
+    console.log(`✅ Config schema copied to: ${path.relative(PROJECT_ROOT, SCHEMA_DEST)}`);
+  }
+
   // Update package.json
   console.log('\n📦 Updating package.json...');
   const packageJsonPath = path.join(PROJECT_ROOT, 'package.json');